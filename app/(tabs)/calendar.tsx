@@ -0,0 +1,393 @@
+/**
+ * @fileoverview Calendar screen showing a month grid with per-day task dots
+ * Tapping a day lists its tasks below the grid and lets the user add a task on that day
+ */
+
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { LayoutAnimation, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { EditTaskModal } from '@/components/EditTaskModal';
+import { TaskGestureHandler } from '@/components/TaskGestureHandler';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { Snackbar } from '@/src/components/ui/Snackbar';
+import { Task } from '@/src/types';
+import { compareTasksByDueTime, startOfDay } from '@/src/utils';
+
+/** Column headers, starting on Sunday */
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+/** Maximum dots drawn under a day; busier days show a "+" instead of more dots */
+const MAX_DOTS = 4;
+
+/**
+ * Builds the 6×7 grid of days covering a month, padded with days from the
+ * neighbouring months so every week is complete
+ *
+ * @param month - Any date in the month
+ * @returns 42 dates at local midnight, starting on a Sunday
+ */
+const getMonthGrid = (month: Date): Date[] => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  return Array.from({ length: 42 }, (_, index) =>
+    new Date(first.getFullYear(), first.getMonth(), index - first.getDay() + 1)
+  );
+};
+
+/**
+ * Calendar Screen Component
+ *
+ * Displays a month calendar with the following features:
+ * - Month navigation with a shortcut back to today
+ * - Dots under each day colored by the lists of the tasks due that day
+ * - Tap a day to see its tasks; tap to edit, tap ✓ to complete, swipe left to delete with undo
+ * - Add a task pre-filled with the selected day
+ *
+ * @returns JSX.Element - The calendar screen component
+ */
+export default function CalendarScreen() {
+  const {
+    getTasksDueOn,
+    toggleTaskCompletion,
+    deleteTask,
+    getCategoryList
+  } = useTaskContext();
+
+  const [visibleMonth, setVisibleMonth] = useState(() => startOfDay(new Date()));
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(new Date()));
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const undoSnackbar = useUndoSnackbar();
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const textColor = useThemeColor({}, 'text');
+
+  const today = new Date();
+  const days = getMonthGrid(visibleMonth);
+  const selectedTasks = [...getTasksDueOn(selectedDate)].sort(compareTasksByDueTime);
+
+  /**
+   * Shows the month before or after the visible one
+   *
+   * @param delta - Number of months to move (negative for earlier)
+   */
+  const changeMonth = (delta: number) => {
+    setVisibleMonth(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + delta, 1));
+  };
+
+  /**
+   * Jumps back to the current month and selects today
+   */
+  const goToToday = () => {
+    const now = startOfDay(new Date());
+    setVisibleMonth(now);
+    setSelectedDate(now);
+  };
+
+  /**
+   * Selects a day, switching months when a padding day is tapped
+   *
+   * @param date - Day that was tapped
+   */
+  const handleSelectDay = (date: Date) => {
+    setSelectedDate(date);
+    if (date.getMonth() !== visibleMonth.getMonth()) {
+      setVisibleMonth(date);
+    }
+  };
+
+  /**
+   * Opens the create-task flow on the Lists screen with the selected day pre-filled
+   */
+  const handleAddTask = () => {
+    router.push({ pathname: '/lists', params: { createTaskDate: selectedDate.toISOString() } });
+  };
+
+  /**
+   * Handles task completion toggle with animation
+   *
+   * @param taskId - Unique identifier of the task to toggle
+   */
+  const handleToggleTaskCompletion = (taskId: string) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    toggleTaskCompletion(taskId);
+  };
+
+  /**
+   * Handles task deletion with undo functionality
+   *
+   * @param taskId - Unique identifier of the task to delete
+   */
+  const handleDeleteTask = (taskId: string) => {
+    deleteTask(taskId);
+    undoSnackbar.show();
+  };
+
+  /**
+   * Renders one cell of the month grid
+   *
+   * @param date - Day the cell represents
+   * @returns JSX.Element - Day number with its task dots
+   */
+  const renderDay = (date: Date) => {
+    const tasks = getTasksDueOn(date);
+    const isCurrentMonth = date.getMonth() === visibleMonth.getMonth();
+    const isToday = date.toDateString() === today.toDateString();
+    const isSelected = date.toDateString() === selectedDate.toDateString();
+
+    return (
+      <TouchableOpacity
+        key={date.toDateString()}
+        style={styles.dayCell}
+        onPress={() => handleSelectDay(date)}
+      >
+        <View style={[styles.dayNumber, isSelected && styles.selectedDayNumber]}>
+          <ThemedText
+            style={[
+              styles.dayNumberText,
+              !isCurrentMonth && styles.outsideMonthText,
+              isToday && styles.todayText,
+              isSelected && styles.selectedDayText
+            ]}
+          >
+            {date.getDate()}
+          </ThemedText>
+        </View>
+        <View style={styles.dotRow}>
+          {tasks.slice(0, MAX_DOTS).map(task => (
+            <View
+              key={task.id}
+              style={[
+                styles.dot,
+                { backgroundColor: getCategoryList(task.listId)?.color || '#8E8E93' },
+                task.completed && styles.completedDot
+              ]}
+            />
+          ))}
+          {tasks.length > MAX_DOTS && (
+            <ThemedText style={styles.moreDots}>+</ThemedText>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ThemedView style={styles.content}>
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.scrollContent}>
+          {/* Header Section */}
+          <View style={styles.header}>
+            <ThemedText type="title" style={styles.title}>
+              Calendar
+            </ThemedText>
+            <TouchableOpacity onPress={goToToday}>
+              <ThemedText style={styles.todayButtonText}>Today</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          {/* Month Navigation */}
+          <View style={styles.monthNav}>
+            <TouchableOpacity style={styles.monthNavButton} onPress={() => changeMonth(-1)}>
+              <IconSymbol name="chevron.left" size={20} color={textColor} />
+            </TouchableOpacity>
+            <ThemedText type="subtitle">
+              {visibleMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </ThemedText>
+            <TouchableOpacity style={styles.monthNavButton} onPress={() => changeMonth(1)}>
+              <IconSymbol name="chevron.right" size={20} color={textColor} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Month Grid */}
+          <View style={[styles.grid, { borderColor }]}>
+            <View style={styles.weekRow}>
+              {WEEKDAY_INITIALS.map((initial, index) => (
+                <ThemedText key={index} style={styles.weekdayLabel}>{initial}</ThemedText>
+              ))}
+            </View>
+            <View style={styles.daysGrid}>
+              {days.map(renderDay)}
+            </View>
+          </View>
+
+          {/* Selected Day */}
+          <View style={styles.dayHeader}>
+            <ThemedText type="defaultSemiBold">
+              {selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            </ThemedText>
+            <TouchableOpacity style={styles.addButton} onPress={handleAddTask}>
+              <IconSymbol name="plus" size={16} color="#FFFFFF" />
+              <ThemedText style={styles.addButtonText}>Add Task</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          {selectedTasks.length === 0 ? (
+            <ThemedText style={styles.emptyText}>No tasks on this day</ThemedText>
+          ) : (
+            selectedTasks.map(task => (
+              <TaskGestureHandler
+                key={task.id}
+                task={task}
+                categoryColor={getCategoryList(task.listId)?.color || '#8E8E93'}
+                onEdit={setEditingTask}
+                onToggleCompletion={handleToggleTaskCompletion}
+                onDelete={handleDeleteTask}
+                showCategoryName={true}
+                categoryName={getCategoryList(task.listId)?.category}
+              />
+            ))
+          )}
+        </ScrollView>
+
+        {/* Snackbar for undo functionality */}
+        <Snackbar {...undoSnackbar.snackbarProps} />
+
+        {/* Edit Task Modal */}
+        <EditTaskModal
+          visible={editingTask !== null}
+          task={editingTask}
+          onClose={() => setEditingTask(null)}
+        />
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    paddingBottom: 100, // Extra padding for tab bar
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  todayButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  monthNav: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  monthNavButton: {
+    padding: 8,
+  },
+  grid: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 8,
+    marginBottom: 20,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  weekdayLabel: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    opacity: 0.5,
+  },
+  daysGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: `${100 / 7}%`,
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  dayNumber: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  selectedDayNumber: {
+    backgroundColor: '#007AFF',
+  },
+  dayNumberText: {
+    fontSize: 15,
+  },
+  outsideMonthText: {
+    opacity: 0.3,
+  },
+  todayText: {
+    color: '#007AFF',
+    fontWeight: '700',
+  },
+  selectedDayText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  dotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    height: 8,
+    marginTop: 2,
+  },
+  dot: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+  },
+  completedDot: {
+    opacity: 0.3,
+  },
+  moreDots: {
+    fontSize: 10,
+    lineHeight: 10,
+    opacity: 0.6,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#007AFF',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
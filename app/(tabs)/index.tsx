@@ -4,42 +4,76 @@
  */
 
 import DateTimePicker from '@react-native-community/datetimepicker';
+import { router } from 'expo-router';
 import React, { useEffect, useState } from 'react';
-import { FlatList, LayoutAnimation, Modal, Platform, ScrollView, StyleSheet, TextInput, TouchableOpacity, UIManager, View } from 'react-native';
+import { LayoutAnimation, Modal, Platform, ScrollView, SectionList, StyleSheet, TextInput, TouchableOpacity, UIManager, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { DueTimePicker } from '@/components/DueTimePicker';
+import { ListPicker } from '@/components/ListPicker';
+import { ReminderPicker } from '@/components/ReminderPicker';
+import { RepeatPicker } from '@/components/RepeatPicker';
+import { SortMenu } from '@/components/SortMenu';
+import { TagInput } from '@/components/TagInput';
 import { TaskGestureHandler } from '@/components/TaskGestureHandler';
+import { TaskMetadata } from '@/components/TaskMetadata';
 import { WelcomeModal } from '@/components/WelcomeModal';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { useTaskContext } from '@/contexts/TaskContext';
+import { useTaskSelection } from '@/hooks/useTaskSelection';
 import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
 import { ThemedText } from '@/src/components/common/ThemedText';
 import { ThemedView } from '@/src/components/common/ThemedView';
 import { Snackbar } from '@/src/components/ui/Snackbar';
-import { Priority, Task } from '@/src/types';
-import { formatDate } from '@/src/utils';
+import { Priority, Task, TaskSort, TaskSortKey } from '@/src/types';
+import { formatDate, generateId } from '@/src/utils';
+import { SortPreferences } from '@/src/utils/sortPreferences';
+import { DEFAULT_HOME_SORT, TASK_SORT_LABELS, describeTaskSort, sortTasks } from '@/src/utils/taskSort';
+
+// Today's tasks come from several lists, so there is no single manual order to offer
+const HOME_SORT_KEYS = (Object.keys(TASK_SORT_LABELS) as TaskSortKey[]).filter(key => key !== 'manual');
 
 /**
  * Home Screen Component
  * 
  * Displays today's tasks with the following features:
- * - Animated task reordering (completed tasks move to bottom)
+ * - Overdue tasks section above today's tasks, with one-tap reschedule to today
+ * - Animated task reordering with a persisted sort choice (completed tasks move to bottom by default)
  * - Progress tracking with visual indicators
  * - Task completion toggle functionality
  * - Task deletion with undo capability
+ * - Multi-select (long press) with bulk actions and a single undo
  * - Responsive design for different screen sizes
  * 
  * @returns JSX.Element - The home screen component
  */
 export default function HomeScreen() {
   // Task context for accessing global task state and operations
-  const { getTasksDueToday, toggleTaskCompletion, updateTask, deleteTask, restoreTask, categoryLists } = useTaskContext();
+  const {
+    getTasksDueToday,
+    getOverdueTasks,
+    rescheduleTasks,
+    toggleTaskCompletion,
+    updateTask,
+    moveTask,
+    deleteTask,
+    categoryLists,
+    getCategoryList
+  } = useTaskContext();
   
   // Local state for screen-specific functionality
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [snackbarVisible, setSnackbarVisible] = useState(false);
-  const [deletedTaskId, setDeletedTaskId] = useState<string | null>(null);
-  const [deletedTaskTitle, setDeletedTaskTitle] = useState<string>('');
+  const [homeSort, setHomeSort] = useState<TaskSort>(DEFAULT_HOME_SORT);
+  const [showSortMenu, setShowSortMenu] = useState(false);
+
+  // Incomplete tasks from earlier days, shown above today's tasks
+  const overdueTasks = getOverdueTasks();
+
+  // Snackbar offering to undo the latest change, and multi-select mode
+  const undoSnackbar = useUndoSnackbar();
+  const selection = useTaskSelection();
   
   // Edit task modal state
   const [showEditModal, setShowEditModal] = useState(false);
@@ -66,31 +100,32 @@ export default function HomeScreen() {
   }, []);
 
   /**
-   * Update tasks when category lists change
-   * Sorts tasks to show incomplete ones first, completed ones at bottom
-   * Within each group, sorts by priority (highest first)
+   * Restore the sort chosen on a previous launch
+   */
+  useEffect(() => {
+    SortPreferences.getHomeSort().then(setHomeSort);
+  }, []);
+
+  /**
+   * Update tasks when category lists or the chosen sort change
+   * By default, incomplete tasks come first; within each group, tasks are sorted by
+   * due time (timed tasks first, then all-day), then by priority (highest first)
    */
   useEffect(() => {
     // Get tasks due today whenever categoryLists changes
-    const todayTasks = getTasksDueToday();
-    
-    // Sort tasks: incomplete first, then by priority within each group
-    const sortedTasks = todayTasks.sort((a, b) => {
-      // First sort by completion status
-      if (a.completed !== b.completed) {
-        return a.completed ? 1 : -1; // Completed tasks go to bottom
-      }
-      
-      // Then sort by priority within the same completion group
-      const priorityOrder = { '!!!': 0, '!!': 1, '!': 2 };
-      const aPriority = a.priority ? priorityOrder[a.priority] : 999; // No priority goes last
-      const bPriority = b.priority ? priorityOrder[b.priority] : 999;
-      
-      return aPriority - bPriority; // Higher priority (lower number) comes first
-    });
-    
-    setTasks(sortedTasks);
-  }, [categoryLists, getTasksDueToday]);
+    setTasks(sortTasks(getTasksDueToday(), homeSort));
+  }, [categoryLists, getTasksDueToday, homeSort]);
+
+  /**
+   * Applies and saves a new sort for today's tasks
+   *
+   * @param sort - Sort chosen in the sort menu
+   */
+  const handleChangeSort = (sort: TaskSort) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    setHomeSort(sort);
+    SortPreferences.setHomeSort(sort);
+  };
 
   /**
    * Handles task completion toggle with smooth animation
@@ -117,43 +152,30 @@ export default function HomeScreen() {
   };
 
   /**
-   * Handles task deletion with undo functionality
-   * Since swipe-to-delete is an intentional gesture, no confirmation is needed
-   * 
-   * @param taskId - Unique identifier of the task to delete
-   * @param taskTitle - Title of the task for display in snackbar
+   * Moves every overdue task to today, keeping each task's time of day
    */
-  const handleDeleteTask = async (taskId: string, taskTitle: string) => {
-    const isPermanent = await deleteTask(taskId);
-    if (!isPermanent) {
-      // Show snackbar for undo
-      setDeletedTaskId(taskId);
-      setDeletedTaskTitle(taskTitle);
-      setSnackbarVisible(true);
-    }
+  const handleRescheduleOverdue = () => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    rescheduleTasks(overdueTasks.map(task => task.id), new Date());
   };
 
   /**
-   * Handles undo action from snackbar
-   * Restores the temporarily deleted task
+   * Handles task deletion with undo functionality
+   * Since swipe-to-delete is an intentional gesture, no confirmation is needed
+   * 
+   * @param taskId - Unique identifier of the task to delete
    */
-  const handleUndoDelete = () => {
-    if (deletedTaskId) {
-      restoreTask(deletedTaskId);
-      setSnackbarVisible(false);
-      setDeletedTaskId(null);
-      setDeletedTaskTitle('');
-    }
+  const handleDeleteTask = (taskId: string) => {
+    deleteTask(taskId);
+    undoSnackbar.show();
   };
 
   /**
-   * Handles snackbar dismissal
-   * Cleans up temporary delete state
+   * Handles a finished bulk action by leaving selection mode and offering undo
    */
-  const handleSnackbarDismiss = () => {
-    setSnackbarVisible(false);
-    setDeletedTaskId(null);
-    setDeletedTaskTitle('');
+  const handleBulkApplied = () => {
+    selection.clear();
+    undoSnackbar.show();
   };
 
   /**
@@ -171,11 +193,17 @@ export default function HomeScreen() {
    */
   const handleSaveEdit = () => {
     if (editingTask) {
+      // No-op unless the list was changed in the modal
+      moveTask(editingTask.id, editingTask.listId);
       updateTask(editingTask.id, {
         title: editingTask.title,
         description: editingTask.description,
         dueDate: editingTask.dueDate,
+        hasDueTime: editingTask.hasDueTime,
         priority: editingTask.priority,
+        recurrence: editingTask.recurrence,
+        reminders: editingTask.reminders,
+        tags: editingTask.tags,
         subtasks: editingTask.subtasks,
       });
       setShowEditModal(false);
@@ -206,12 +234,11 @@ export default function HomeScreen() {
   /**
    * Gets the color for a task's category indicator
    * 
-   * @param categoryName - Name of the category
+   * @param listId - Id of the task's list
    * @returns Hex color string for the category
    */
-  const getTaskCategoryColor = (categoryName: string) => {
-    const categoryList = categoryLists.find(cat => cat.category === categoryName);
-    return categoryList?.color || '#8E8E93';
+  const getTaskCategoryColor = (listId: string) => {
+    return getCategoryList(listId)?.color || '#8E8E93';
   };
 
   /**
@@ -223,11 +250,16 @@ export default function HomeScreen() {
   const renderTaskItem = ({ item }: { item: Task }) => (
     <TaskGestureHandler
       task={item}
-      categoryColor={getTaskCategoryColor(item.category)}
+      categoryColor={getTaskCategoryColor(item.listId)}
       onEdit={handleEditTask}
       onToggleCompletion={handleToggleTaskCompletion}
       onDelete={handleDeleteTask}
       showCategoryName={true} // Show category name on home page
+      categoryName={getCategoryList(item.listId)?.category}
+      onLongPress={(task) => selection.begin(task.id)}
+      selectionMode={selection.isSelecting}
+      isSelected={selection.isSelected(item.id)}
+      onToggleSelection={(task) => selection.toggle(task.id)}
     />
   );
 
@@ -235,6 +267,63 @@ export default function HomeScreen() {
   const completedCount = tasks.filter(task => task.completed).length;
   const totalCount = tasks.length;
 
+  const sections = [
+    ...(overdueTasks.length > 0 ? [{ key: 'overdue', data: overdueTasks }] : []),
+    { key: 'today', data: tasks },
+  ];
+
+  /**
+   * Renders the header for the Overdue or Today section
+   */
+  const renderSectionHeader = ({ section }: { section: { key: string } }) => {
+    if (section.key === 'overdue') {
+      return (
+        <View style={styles.sectionTitleRow}>
+          <ThemedText type="subtitle" style={styles.overdueTitle}>
+            Overdue ({overdueTasks.length})
+          </ThemedText>
+          <TouchableOpacity onPress={handleRescheduleOverdue} activeOpacity={0.7}>
+            <ThemedText style={styles.rescheduleText}>Move all to today</ThemedText>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={overdueTasks.length > 0 && styles.followingSection}>
+        <View style={styles.sectionTitleRow}>
+          <ThemedText type="subtitle">
+            Today&apos;s Tasks
+          </ThemedText>
+          <TouchableOpacity style={styles.sortButton} onPress={() => setShowSortMenu(true)} activeOpacity={0.7}>
+            <IconSymbol name="arrow.up.arrow.down" size={14} color="#007AFF" />
+            <ThemedText style={styles.sortButtonText}>{describeTaskSort(homeSort)}</ThemedText>
+          </TouchableOpacity>
+        </View>
+        {(tasks.length > 0 || overdueTasks.length > 0) && (
+          <ThemedText style={styles.helpText}>
+            Tap to edit • Tap ✓ to complete • Swipe left to delete • Hold to select
+          </ThemedText>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * Shows the empty state below the Today header when nothing is due today
+   */
+  const renderSectionFooter = ({ section }: { section: { key: string } }) =>
+    section.key === 'today' && tasks.length === 0 ? (
+      <ThemedView style={[styles.emptyState, { borderColor }]}>
+        <ThemedText style={styles.emptyStateText}>
+          No tasks for today! 🎉
+        </ThemedText>
+        <ThemedText style={styles.emptyStateSubtext}>
+          Enjoy your free time or add some tasks to stay productive.
+        </ThemedText>
+      </ThemedView>
+    ) : null;
+
   return (
     <SafeAreaView style={styles.container}>
       <ThemedView style={styles.content}>
@@ -249,6 +338,15 @@ export default function HomeScreen() {
             </ThemedText>
           </View>
           
+          {/* Search Button */}
+          <TouchableOpacity
+            style={styles.helpButton}
+            onPress={() => router.push('/search')}
+            activeOpacity={0.7}
+          >
+            <IconSymbol name="magnifyingglass" size={24} color="#007AFF" />
+          </TouchableOpacity>
+          
           {/* Help Button */}
           <TouchableOpacity
             style={styles.helpButton}
@@ -267,6 +365,11 @@ export default function HomeScreen() {
           <ThemedText style={styles.progressText}>
             {completedCount} of {totalCount} tasks completed
           </ThemedText>
+          {overdueTasks.length > 0 && (
+            <ThemedText style={styles.overdueCountText}>
+              {overdueTasks.length} overdue
+            </ThemedText>
+          )}
           <View style={styles.progressBar}>
             <View
               style={[
@@ -279,43 +382,29 @@ export default function HomeScreen() {
 
         {/* Tasks Section */}
         <View style={styles.tasksSection}>
-          <ThemedText type="subtitle" style={styles.sectionTitle}>
-            Today&apos;s Tasks
-          </ThemedText>
-          {tasks.length > 0 && (
-            <ThemedText style={styles.helpText}>
-              Tap to edit • Tap ✓ to complete • Swipe left to delete
-            </ThemedText>
-          )}
-          
-          {tasks.length === 0 ? (
-            <ThemedView style={[styles.emptyState, { borderColor }]}>
-              <ThemedText style={styles.emptyStateText}>
-                No tasks for today! 🎉
-              </ThemedText>
-              <ThemedText style={styles.emptyStateSubtext}>
-                Enjoy your free time or add some tasks to stay productive.
-              </ThemedText>
-            </ThemedView>
-          ) : (
-            <FlatList
-              data={tasks}
-              renderItem={renderTaskItem}
-              keyExtractor={(item) => item.id}
-              showsVerticalScrollIndicator={false}
-              contentContainerStyle={styles.tasksList}
-            />
-          )}
+          <SectionList
+            sections={sections}
+            renderItem={renderTaskItem}
+            renderSectionHeader={renderSectionHeader}
+            renderSectionFooter={renderSectionFooter}
+            keyExtractor={(item) => item.id}
+            stickySectionHeadersEnabled={false}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={styles.tasksList}
+          />
         </View>
 
+        {/* Bulk actions for the selected tasks */}
+        {selection.isSelecting && (
+          <BulkActionBar
+            selectedIds={selection.selectedIds}
+            onCancel={selection.clear}
+            onApplied={handleBulkApplied}
+          />
+        )}
+
         {/* Snackbar for undo functionality */}
-        <Snackbar
-          visible={snackbarVisible}
-          message={`"${deletedTaskTitle}" deleted`}
-          actionText="UNDO"
-          onAction={handleUndoDelete}
-          onDismiss={handleSnackbarDismiss}
-        />
+        <Snackbar {...undoSnackbar.snackbarProps} />
 
         {/* Edit Task Modal */}
         {showEditModal && editingTask && (
@@ -338,6 +427,16 @@ export default function HomeScreen() {
               </View>
 
               <ScrollView style={styles.modalContent}>
+                {/* List */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>List</ThemedText>
+                  <ListPicker
+                    lists={categoryLists}
+                    selectedListId={editingTask.listId}
+                    onSelect={(listId) => setEditingTask({ ...editingTask, listId })}
+                  />
+                </View>
+
                 {/* Task Title */}
                 <View style={styles.inputSection}>
                   <ThemedText style={styles.sectionLabel}>Task Name</ThemedText>
@@ -398,6 +497,12 @@ export default function HomeScreen() {
                       minimumDate={new Date()}
                     />
                   )}
+
+                  <DueTimePicker
+                    dueDate={editingTask.dueDate}
+                    hasDueTime={!!editingTask.hasDueTime}
+                    onChange={(dueDate, hasDueTime) => setEditingTask({ ...editingTask, dueDate, hasDueTime })}
+                  />
                 </View>
 
                 {/* Priority */}
@@ -430,6 +535,34 @@ export default function HomeScreen() {
                   </View>
                 </View>
 
+                {/* Repeat */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>Repeat</ThemedText>
+                  <RepeatPicker
+                    rule={editingTask.recurrence}
+                    dueDate={editingTask.dueDate}
+                    onChange={(recurrence) => setEditingTask({ ...editingTask, recurrence })}
+                  />
+                </View>
+
+                {/* Reminders */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>Reminders (Optional)</ThemedText>
+                  <ReminderPicker
+                    reminders={editingTask.reminders}
+                    onChange={(reminders) => setEditingTask({ ...editingTask, reminders })}
+                  />
+                </View>
+
+                {/* Tags */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>Tags (Optional)</ThemedText>
+                  <TagInput
+                    tags={editingTask.tags}
+                    onChange={(tags) => setEditingTask({ ...editingTask, tags })}
+                  />
+                </View>
+
                 {/* Subtasks */}
                 <View style={styles.inputSection}>
                   <View style={styles.subtaskHeader}>
@@ -440,7 +573,7 @@ export default function HomeScreen() {
                         const currentSubtasks = editingTask.subtasks || [];
                         setEditingTask({
                           ...editingTask,
-                          subtasks: [...currentSubtasks, { id: Date.now().toString(), name: '', completed: false }]
+                          subtasks: [...currentSubtasks, { id: generateId(), name: '', completed: false }]
                         });
                       }}
                     >
@@ -480,11 +613,24 @@ export default function HomeScreen() {
                     </View>
                   )}
                 </View>
+
+                {/* Timestamps */}
+                <TaskMetadata task={editingTask} />
               </ScrollView>
             </SafeAreaView>
           </Modal>
         )}
 
+        {/* Sort Menu for today's tasks */}
+        <SortMenu
+          visible={showSortMenu}
+          title="Today's Tasks"
+          sort={homeSort}
+          keys={HOME_SORT_KEYS}
+          onChange={handleChangeSort}
+          onClose={() => setShowSortMenu(false)}
+        />
+
         {/* Welcome Modal for help */}
         <WelcomeModal
           visible={showWelcomeModal}
@@ -537,6 +683,12 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     opacity: 0.8,
   },
+  overdueCountText: {
+    marginTop: -8,
+    marginBottom: 12,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
   progressBar: {
     height: 8,
     backgroundColor: '#E5E5E7',
@@ -551,9 +703,32 @@ const styles = StyleSheet.create({
   tasksSection: {
     flex: 1,
   },
-  sectionTitle: {
+  sectionTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     marginBottom: 16,
   },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  sortButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  followingSection: {
+    marginTop: 12,
+  },
+  overdueTitle: {
+    color: '#FF3B30',
+  },
+  rescheduleText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   tasksList: {
     paddingBottom: 20,
   },
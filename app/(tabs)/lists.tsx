@@ -1,18 +1,38 @@
 import DateTimePicker from '@react-native-community/datetimepicker';
 import * as Haptics from 'expo-haptics';
+import { router, useLocalSearchParams } from 'expo-router';
 import React, { useEffect, useRef, useState } from 'react';
 import { Alert, Animated, FlatList, LayoutAnimation, Modal, Platform, ScrollView, StyleSheet, TextInput, TouchableOpacity, UIManager, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { DueTimePicker } from '@/components/DueTimePicker';
+import { ListPicker } from '@/components/ListPicker';
+import { ReminderPicker } from '@/components/ReminderPicker';
+import { RepeatPicker } from '@/components/RepeatPicker';
+import { SearchBar } from '@/components/SearchBar';
+import { SmartListModal } from '@/components/SmartListModal';
+import { SortMenu } from '@/components/SortMenu';
+import { TagInput } from '@/components/TagInput';
 import { TaskGestureHandler } from '@/components/TaskGestureHandler';
+import { TaskMetadata } from '@/components/TaskMetadata';
+import { TaskSearchResults } from '@/components/TaskSearchResults';
 import { WelcomeModal } from '@/components/WelcomeModal';
 import { IconSymbol } from '@/components/ui/IconSymbol';
-import { useTaskContext } from '@/contexts/TaskContext';
+import { PREDEFINED_COLORS, PREDEFINED_ICONS } from '@/constants/ListAppearance';
+import { TRASH_RETENTION_DAYS, useTaskContext } from '@/contexts/TaskContext';
+import { useDragAndDrop } from '@/hooks/useDragAndDrop';
+import { useTaskSearch } from '@/hooks/useTaskSearch';
+import { useTaskSelection } from '@/hooks/useTaskSelection';
 import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
 import { ThemedText } from '@/src/components/common/ThemedText';
 import { ThemedView } from '@/src/components/common/ThemedView';
 import { Snackbar } from '@/src/components/ui/Snackbar';
-import { CategoryList, Priority, Task } from '@/src/types';
+import { CategoryList, Priority, RecurrenceRule, ReminderOffset, SmartList, Task } from '@/src/types';
+import { generateId } from '@/src/utils';
+import { describeTaskFilter } from '@/src/utils/taskFilter';
+import { DEFAULT_LIST_SORT, sortTasks } from '@/src/utils/taskSort';
 
 interface NewListData {
   name: string;
@@ -24,54 +44,51 @@ interface NewTaskData {
   title: string;
   description: string;
   dueDate: Date;
+  hasDueTime: boolean;
   priority?: Priority;
+  recurrence?: RecurrenceRule;
+  reminders?: ReminderOffset[];
+  tags?: string[];
   subtasks: string[];
-  categoryName: string;
+  listId: string;
 }
 
 type IconName = typeof PREDEFINED_ICONS[number];
 
-const PREDEFINED_COLORS = [
-  '#FF9500', // Orange
-  '#34C759', // Green
-  '#FF3B30', // Red
-  '#007AFF', // Blue
-  '#AF52DE', // Purple
-  '#FF2D92', // Pink
-  '#5AC8FA', // Light Blue
-  '#FFCC02', // Yellow
-];
-
-const PREDEFINED_ICONS = [
-  'list.bullet',
-  'folder.fill',
-  'briefcase.fill',
-  'house.fill',
-  'heart.fill',
-  'star.fill',
-  'bookmark.fill',
-  'flag.fill',
-  'target',
-  'calendar',
-  'clock.fill',
-  'checkmark.circle.fill',
-] as const;
-
 const PRIORITY_OPTIONS: Priority[] = ['!!!', '!!', '!'];
 
+/** Prefix of drop target keys for task rows; list sections use the bare list id */
+const TASK_TARGET_PREFIX = 'task:';
+
+/** Item being dragged on the Lists screen: a task, or a whole list by its handle */
+type DragItem =
+  | { kind: 'task'; task: Task; fromHandle: boolean }
+  | { kind: 'list'; list: CategoryList };
+
+/** Icon shown in smart list headers */
+const SMART_LIST_ICON = 'line.3.horizontal.decrease.circle';
+
 export default function ListsScreen() {
-  const { categoryLists, addCategoryList, addTask, toggleTaskCompletion, updateTask, deleteTask, restoreTask, deleteCategoryList } = useTaskContext();
+  const { categoryLists, isHydrated, addCategoryList, updateCategoryList, getCategoryList, addTask, toggleTaskCompletion, updateTask, moveTask, deleteTask, deleteCategoryList, moveCategoryList, smartLists, getSmartListTasks, deleteSmartList } = useTaskContext();
+  // Set by other screens (e.g. Calendar) to open the create-task modal for a given day
+  const { createTaskDate } = useLocalSearchParams<{ createTaskDate?: string }>();
+  const search = useTaskSearch();
+  const selection = useTaskSelection();
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showTaskModal, setShowTaskModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showWelcomeModal, setShowWelcomeModal] = useState(false);
+  const [showSmartListModal, setShowSmartListModal] = useState(false);
+  const [editingSmartList, setEditingSmartList] = useState<SmartList | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showEditDatePicker, setShowEditDatePicker] = useState(false);
-  const [snackbarVisible, setSnackbarVisible] = useState(false);
-  const [deletedTaskId, setDeletedTaskId] = useState<string | null>(null);
-  const [deletedTaskTitle, setDeletedTaskTitle] = useState<string>('');
+  const undoSnackbar = useUndoSnackbar();
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  // Id of the list whose sort menu is open
+  const [sortingListId, setSortingListId] = useState<string | null>(null);
+  // Id of the list being edited in the list modal (null when creating a new list)
+  const [editingListId, setEditingListId] = useState<string | null>(null);
   const [newListData, setNewListData] = useState<NewListData>({
     name: '',
     color: PREDEFINED_COLORS[0],
@@ -81,17 +98,77 @@ export default function ListsScreen() {
     title: '',
     description: '',
     dueDate: new Date(),
+    hasDueTime: false,
     priority: undefined,
+    recurrence: undefined,
+    reminders: undefined,
+    tags: undefined,
     subtasks: [''],
-    categoryName: '',
+    listId: '',
   });
   
   const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
   const modalBackground = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
   const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
   const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+  const backgroundColor = useThemeColor({}, 'background');
+  const highlightColor = useThemeColor({ light: '#E5F0FF', dark: '#0A2A4D' }, 'background');
+
+  /**
+   * Resolves a drop target key to its list and, for a task row, the task id
+   *
+   * @param key - List id, or task id with TASK_TARGET_PREFIX
+   * @returns Target list (undefined if it no longer exists) and task id
+   */
+  const resolveDropTarget = (key: string): { list?: CategoryList; taskId?: string } => {
+    if (!key.startsWith(TASK_TARGET_PREFIX)) {
+      return { list: getCategoryList(key) };
+    }
+    const taskId = key.slice(TASK_TARGET_PREFIX.length);
+    return { list: categoryLists.find(list => list.tasks.some(task => task.id === taskId)), taskId };
+  };
+
+  /**
+   * Handles drops on the Lists screen:
+   * - A list takes the position of the list it is dropped on
+   * - A task dropped on a task row takes that row's position (manual lists register their rows)
+   * - A task dropped on another list's section moves to the end of that list
+   * - Releasing a long-pressed task over itself or its own list selects it, as a plain long press would
+   */
+  const drag = useDragAndDrop<DragItem>({
+    onDrop: (item, key) => {
+      const target = resolveDropTarget(key);
+      if (!target.list) return;
+      const targetList = target.list;
+
+      if (item.kind === 'list') {
+        if (targetList.id === item.list.id) return;
+        LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+        moveCategoryList(item.list.id, categoryLists.findIndex(list => list.id === targetList.id));
+        return;
+      }
+
+      const { task, fromHandle } = item;
+      const onItself = target.taskId ? target.taskId === task.id : targetList.id === task.listId;
+      if (onItself) {
+        if (!fromHandle) selection.begin(task.id);
+        return;
+      }
+
+      LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+      if (target.taskId) {
+        moveTask(task.id, targetList.id, targetList.tasks.findIndex(({ id }) => id === target.taskId));
+      } else {
+        moveTask(task.id, targetList.id);
+      }
+      // Moving to another list is easy to do by accident, so offer to undo it
+      if (targetList.id !== task.listId) {
+        undoSnackbar.show();
+      }
+    },
+  });
   
-  // Animation refs for each category
+  // Animation refs for each category, keyed by list id
   const animationRefs = useRef<Record<string, {
     chevron: Animated.Value;
     content: Animated.Value;
@@ -106,25 +183,87 @@ export default function ListsScreen() {
     }
   }, []);
 
+  // Smart lists are shown as sections above the regular lists, with their matching tasks
+  const smartListSections: CategoryList[] = smartLists.map(smartList => ({
+    id: smartList.id,
+    category: smartList.name,
+    color: smartList.color,
+    icon: SMART_LIST_ICON,
+    tasks: getSmartListTasks(smartList.id),
+  }));
+
   useEffect(() => {
-    // Initialize animation values for existing categories
-    categoryLists.forEach(({ category }) => {
-      if (!animationRefs.current[category]) {
-        animationRefs.current[category] = {
+    // Initialize animation values for existing categories and smart lists
+    [...categoryLists, ...smartLists].forEach(({ id }) => {
+      if (!animationRefs.current[id]) {
+        animationRefs.current[id] = {
           chevron: new Animated.Value(0),
           content: new Animated.Value(1)
         };
       }
     });
-  }, [categoryLists]);
+  }, [categoryLists, smartLists]);
+
+  /**
+   * Opens the create-task modal pre-filled with a date passed in by another screen,
+   * then clears the parameter so it only applies once
+   */
+  useEffect(() => {
+    if (!createTaskDate || !isHydrated) return;
 
-  const createNewList = () => {
+    if (categoryLists.length > 0) {
+      openTaskModal(categoryLists[0].id, new Date(createTaskDate));
+    } else {
+      Alert.alert('No Lists Yet', 'Create a list first, then add tasks to it.');
+    }
+    router.setParams({ createTaskDate: undefined });
+    // Only react to a new date being passed in
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [createTaskDate, isHydrated]);
+
+  const openCreateListModal = () => {
+    setEditingListId(null);
+    setNewListData({
+      name: '',
+      color: PREDEFINED_COLORS[0],
+      icon: PREDEFINED_ICONS[0],
+    });
+    setShowCreateModal(true);
+  };
+
+  const openEditListModal = (list: CategoryList) => {
+    setEditingListId(list.id);
+    setNewListData({
+      name: list.category,
+      color: list.color,
+      icon: list.icon as IconName,
+    });
+    setShowCreateModal(true);
+  };
+
+  const closeListModal = () => {
+    setShowCreateModal(false);
+    setEditingListId(null);
+  };
+
+  const saveList = () => {
     if (!newListData.name.trim()) {
       Alert.alert('Error', 'Please enter a list name');
       return;
     }
 
+    if (editingListId) {
+      updateCategoryList(editingListId, {
+        category: newListData.name.trim(),
+        color: newListData.color,
+        icon: newListData.icon,
+      });
+      closeListModal();
+      return;
+    }
+
     const newList = {
+      id: generateId(),
       category: newListData.name.trim(),
       tasks: [],
       color: newListData.color,
@@ -134,7 +273,7 @@ export default function ListsScreen() {
     addCategoryList(newList);
     
     // Initialize animation values for the new category
-    animationRefs.current[newList.category] = {
+    animationRefs.current[newList.id] = {
       chevron: new Animated.Value(0),
       content: new Animated.Value(1)
     };
@@ -145,17 +284,21 @@ export default function ListsScreen() {
       color: PREDEFINED_COLORS[0],
       icon: PREDEFINED_ICONS[0],
     });
-    setShowCreateModal(false);
+    closeListModal();
   };
 
-  const openTaskModal = (categoryName: string) => {
+  const openTaskModal = (listId: string, dueDate: Date = new Date()) => {
     setNewTaskData(prev => ({
       ...prev,
-      categoryName,
+      listId,
       title: '',
       description: '',
-      dueDate: new Date(),
+      dueDate,
+      hasDueTime: false,
       priority: undefined,
+      recurrence: undefined,
+      reminders: undefined,
+      tags: undefined,
       subtasks: [''],
     }));
     setShowDatePicker(false);
@@ -169,17 +312,21 @@ export default function ListsScreen() {
     }
 
     const newTask = {
-      id: Date.now().toString(),
+      id: generateId(),
       title: newTaskData.title.trim(),
       description: newTaskData.description.trim() || undefined,
       dueDate: newTaskData.dueDate,
+      hasDueTime: newTaskData.hasDueTime || undefined,
       completed: false,
-      category: newTaskData.categoryName,
+      listId: newTaskData.listId,
       priority: newTaskData.priority,
+      recurrence: newTaskData.recurrence,
+      reminders: newTaskData.reminders,
+      tags: newTaskData.tags,
       subtasks: newTaskData.subtasks
         .filter(subtask => subtask.trim())
-        .map((subtask, index) => ({
-          id: `${Date.now()}-${index}`,
+        .map(subtask => ({
+          id: generateId(),
           name: subtask.trim(),
           completed: false,
         })),
@@ -195,29 +342,14 @@ export default function ListsScreen() {
     setShowTaskModal(false);
   };
 
-  const handleDeleteTask = async (taskId: string, taskTitle: string) => {
-    const isPermanent = await deleteTask(taskId);
-    if (!isPermanent) {
-      // Show snackbar for undo
-      setDeletedTaskId(taskId);
-      setDeletedTaskTitle(taskTitle);
-      setSnackbarVisible(true);
-    }
-  };
-
-  const handleUndoDelete = () => {
-    if (deletedTaskId) {
-      restoreTask(deletedTaskId);
-      setSnackbarVisible(false);
-      setDeletedTaskId(null);
-      setDeletedTaskTitle('');
-    }
+  const handleDeleteTask = (taskId: string) => {
+    deleteTask(taskId);
+    undoSnackbar.show();
   };
 
-  const handleSnackbarDismiss = () => {
-    setSnackbarVisible(false);
-    setDeletedTaskId(null);
-    setDeletedTaskTitle('');
+  const handleBulkApplied = () => {
+    selection.clear();
+    undoSnackbar.show();
   };
 
   // Simple edit handler for TaskGestureHandler compatibility
@@ -231,11 +363,17 @@ export default function ListsScreen() {
    */
   const handleSaveEdit = () => {
     if (editingTask) {
+      // No-op unless the list was changed in the modal
+      moveTask(editingTask.id, editingTask.listId);
       updateTask(editingTask.id, {
         title: editingTask.title,
         description: editingTask.description,
         dueDate: editingTask.dueDate,
+        hasDueTime: editingTask.hasDueTime,
         priority: editingTask.priority,
+        recurrence: editingTask.recurrence,
+        reminders: editingTask.reminders,
+        tags: editingTask.tags,
         subtasks: editingTask.subtasks,
       });
       setShowEditModal(false);
@@ -264,22 +402,92 @@ export default function ListsScreen() {
   };
 
   /**
-   * Handles long press on category header to delete entire list
-   * Shows confirmation dialog before deletion
+   * Handles long press on category header
+   * Offers editing the list or deleting it
    * 
-   * @param categoryName - Name of the category to delete
-   * @param taskCount - Number of tasks in the category
+   * @param list - The category list that was pressed
    */
-  const handleDeleteCategoryList = (categoryName: string, taskCount: number) => {
+  const handleCategoryLongPress = (list: CategoryList) => {
     // Provide haptic feedback for long press
     if (Platform.OS !== 'web') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     }
 
+    Alert.alert(
+      list.category,
+      undefined,
+      [
+        {
+          text: 'Edit List',
+          onPress: () => openEditListModal(list),
+        },
+        {
+          text: 'Delete List',
+          style: 'destructive',
+          onPress: () => handleDeleteCategoryList(list),
+        },
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+      ]
+    );
+  };
+
+  /**
+   * Handles long press on a smart list header
+   * Offers editing the smart list's filter or deleting it
+   * 
+   * @param smartList - The smart list that was pressed
+   */
+  const handleSmartListLongPress = (smartList: SmartList) => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+
+    Alert.alert(
+      smartList.name,
+      undefined,
+      [
+        {
+          text: 'Edit Smart List',
+          onPress: () => openSmartListModal(smartList),
+        },
+        {
+          text: 'Delete Smart List',
+          style: 'destructive',
+          onPress: () => deleteSmartList(smartList.id),
+        },
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+      ]
+    );
+  };
+
+  /**
+   * Opens the smart list modal to create a new smart list or edit an existing one
+   * 
+   * @param smartList - Smart list to edit, or nothing to create one
+   */
+  const openSmartListModal = (smartList: SmartList | null = null) => {
+    setEditingSmartList(smartList);
+    setShowSmartListModal(true);
+  };
+
+  /**
+   * Confirms and moves an entire list to the Trash
+   * 
+   * @param list - The category list to delete
+   */
+  const handleDeleteCategoryList = (list: CategoryList) => {
+    const categoryName = list.category;
+    const taskCount = list.tasks.length;
     const taskText = taskCount === 1 ? 'task' : 'tasks';
     const message = taskCount > 0 
-      ? `This will permanently delete "${categoryName}" and all ${taskCount} ${taskText} in it.`
-      : `This will permanently delete the "${categoryName}" list.`;
+      ? `"${categoryName}" and all ${taskCount} ${taskText} in it will be moved to the Trash for ${TRASH_RETENTION_DAYS} days.`
+      : `The "${categoryName}" list will be moved to the Trash for ${TRASH_RETENTION_DAYS} days.`;
 
     Alert.alert(
       'Delete List',
@@ -292,7 +500,10 @@ export default function ListsScreen() {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => deleteCategoryList(categoryName),
+          onPress: () => {
+            deleteCategoryList(list.id);
+            undoSnackbar.show();
+          },
         },
       ]
     );
@@ -337,9 +548,9 @@ export default function ListsScreen() {
     setShowDatePicker(true);
   };
 
-  const toggleCategoryCollapse = (category: string) => {
-    const isCurrentlyCollapsed = collapsedCategories.has(category);
-    const animations = animationRefs.current[category];
+  const toggleCategoryCollapse = (listId: string) => {
+    const isCurrentlyCollapsed = collapsedCategories.has(listId);
+    const animations = animationRefs.current[listId];
     
     if (!animations) return;
 
@@ -347,7 +558,7 @@ export default function ListsScreen() {
       // Expanding: Show content first, then animate in
       setCollapsedCategories(prev => {
         const newSet = new Set(prev);
-        newSet.delete(category);
+        newSet.delete(listId);
         return newSet;
       });
       
@@ -378,18 +589,18 @@ export default function ListsScreen() {
         // Hide content after animation completes
         setCollapsedCategories(prev => {
           const newSet = new Set(prev);
-          newSet.add(category);
+          newSet.add(listId);
           return newSet;
         });
       });
     }
   };
 
-  const renderTaskItem = ({ item, categoryColor }: { item: Task; categoryColor: string }) => (
+  const renderTaskItem = ({ item, categoryColor, categoryName, reorderable = false }: { item: Task; categoryColor: string; categoryName?: string; reorderable?: boolean }) => (
     <TaskGestureHandler
       task={item}
       categoryColor={categoryColor}
-      onDelete={(taskId, taskTitle) => handleDeleteTask(taskId, taskTitle)}
+      onDelete={handleDeleteTask}
       onEdit={handleEditTask}
       onToggleCompletion={(taskId) => {
         // Configure the layout animation for smooth reordering
@@ -408,15 +619,30 @@ export default function ListsScreen() {
         
         toggleTaskCompletion(taskId);
       }}
-      showCategoryName={false} // Don't show category name on lists page (tasks are already grouped by category)
+      showCategoryName={!!categoryName} // Only smart lists mix tasks from several lists
+      categoryName={categoryName}
+      onLongPress={(task, event) =>
+        selection.isSelecting
+          ? selection.begin(task.id)
+          : drag.startDrag({ kind: 'task', task, fromHandle: false }, event.nativeEvent.pageY)
+      }
+      onDragHandlePressIn={reorderable
+        ? (task, event) => drag.startDrag({ kind: 'task', task, fromHandle: true }, event.nativeEvent.pageY)
+        : undefined}
+      isDragging={drag.draggingItem?.kind === 'task' && drag.draggingItem.task.id === item.id}
+      selectionMode={selection.isSelecting}
+      isSelected={selection.isSelected(item.id)}
+      onToggleSelection={(task) => selection.toggle(task.id)}
     />
   );
 
   const renderCategorySection = ({ item }: { item: CategoryList }) => {
+    // Smart list sections are computed from a filter, so tasks cannot be added to them directly
+    const smartList = smartLists.find(({ id }) => id === item.id);
     const completedCount = item.tasks.filter((task: Task) => task.completed).length;
     const totalCount = item.tasks.length;
-    const isCollapsed = collapsedCategories.has(item.category);
-    const animations = animationRefs.current[item.category];
+    const isCollapsed = collapsedCategories.has(item.id);
+    const animations = animationRefs.current[item.id];
 
     if (!animations) return null;
 
@@ -431,18 +657,31 @@ export default function ListsScreen() {
       outputRange: [0.95, 1]
     });
 
-    // Sort tasks within this category: incomplete first, completed at bottom
-    const sortedTasks = [...item.tasks].sort((a, b) => {
-      if (a.completed === b.completed) return 0;
-      return a.completed ? 1 : -1; // Completed tasks go to bottom
-    });
+    // Highlight a regular list while a task from another list, or another list, is dragged over it
+    const dragging = drag.draggingItem;
+    const hoverTarget = drag.hoverKey ? resolveDropTarget(drag.hoverKey) : null;
+    const isDropTarget = !smartList && dragging !== null && hoverTarget?.list?.id === item.id && (
+      dragging.kind === 'list'
+        ? dragging.list.id !== item.id
+        : !hoverTarget.taskId && dragging.task.listId !== item.id
+    );
+
+    // Sort tasks with the list's chosen sort (smart lists use the default)
+    const listSort = item.sort ?? DEFAULT_LIST_SORT;
+    const sortedTasks = sortTasks(item.tasks, listSort);
+
+    // Manually sorted lists keep their stored order and can be rearranged by drag handle
+    const isManual = !smartList && listSort.key === 'manual';
 
     return (
-      <View style={styles.categorySection}>
+      <View
+        ref={smartList ? undefined : drag.registerTarget(item.id)}
+        style={[styles.categorySection, isDropTarget && { backgroundColor: highlightColor }]}
+      >
         <TouchableOpacity 
           style={styles.categoryHeader}
-          onPress={() => toggleCategoryCollapse(item.category)}
-          onLongPress={() => handleDeleteCategoryList(item.category, item.tasks.length)}
+          onPress={() => toggleCategoryCollapse(item.id)}
+          onLongPress={() => smartList ? handleSmartListLongPress(smartList) : handleCategoryLongPress(item)}
           delayLongPress={800}
           activeOpacity={0.7}
         >
@@ -469,9 +708,33 @@ export default function ListsScreen() {
               {item.category}
             </ThemedText>
           </View>
-          <ThemedText style={styles.categoryCount}>
-            {completedCount}/{totalCount}
-          </ThemedText>
+          <View style={styles.categoryTitleRow}>
+            <ThemedText style={styles.categoryCount}>
+              {completedCount}/{totalCount}
+            </ThemedText>
+            {/* Sort menu for regular lists */}
+            {!smartList && (
+              <TouchableOpacity
+                onPress={() => setSortingListId(item.id)}
+                style={styles.listHeaderButton}
+                activeOpacity={0.5}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <IconSymbol name="arrow.up.arrow.down" size={18} color={listSort.key === 'manual' ? borderColor : item.color} />
+              </TouchableOpacity>
+            )}
+            {/* Drag handle to reorder regular lists */}
+            {!smartList && !selection.isSelecting && (
+              <TouchableOpacity
+                onPressIn={(event) => drag.startDrag({ kind: 'list', list: item }, event.nativeEvent.pageY)}
+                style={styles.listHeaderButton}
+                activeOpacity={0.5}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <IconSymbol name="line.3.horizontal" size={20} color={borderColor} />
+              </TouchableOpacity>
+            )}
+          </View>
         </TouchableOpacity>
         
         {!isCollapsed && (
@@ -495,27 +758,49 @@ export default function ListsScreen() {
               </View>
             </View>
 
+            {smartList && (
+              <ThemedText style={styles.smartListFilterText}>
+                {describeTaskFilter(smartList.filter, listId => getCategoryList(listId)?.category)}
+              </ThemedText>
+            )}
+
             {sortedTasks.map((task) => (
-              <View key={task.id}>
-                {renderTaskItem({ item: task, categoryColor: item.color })}
+              <View
+                key={task.id}
+                ref={isManual ? drag.registerTarget(TASK_TARGET_PREFIX + task.id) : undefined}
+                style={[
+                  styles.taskRow,
+                  dragging?.kind === 'task' && dragging.task.id !== task.id
+                    && drag.hoverKey === TASK_TARGET_PREFIX + task.id && { backgroundColor: highlightColor }
+                ]}
+              >
+                {smartList
+                  ? renderTaskItem({
+                      item: task,
+                      categoryColor: getCategoryList(task.listId)?.color || item.color,
+                      categoryName: getCategoryList(task.listId)?.category,
+                    })
+                  : renderTaskItem({ item: task, categoryColor: item.color, reorderable: isManual })}
               </View>
             ))}
 
             {/* Help text when tasks are present */}
             {item.tasks.length > 0 && (
               <ThemedText style={styles.helpText}>
-                Tap to edit • Tap ✓ to complete • Swipe to delete
+                Tap to edit • Tap ✓ to complete • Swipe to delete • Hold to select or drag to another list{isManual ? ' • Drag ≡ to reorder' : ''}
               </ThemedText>
             )}
 
             {/* Add Task Button - Smaller and more subtle */}
-            <TouchableOpacity
-              style={[styles.addTaskButton, { borderColor: borderColor + '50' }]} // 50% opacity for subtlety
-              onPress={() => openTaskModal(item.category)}
-            >
-              <IconSymbol name="plus" size={14} color={borderColor} />
-              <ThemedText style={styles.addTaskButtonText}>Add Task</ThemedText>
-            </TouchableOpacity>
+            {!smartList && (
+              <TouchableOpacity
+                style={[styles.addTaskButton, { borderColor: borderColor + '50' }]} // 50% opacity for subtlety
+                onPress={() => openTaskModal(item.id)}
+              >
+                <IconSymbol name="plus" size={14} color={borderColor} />
+                <ThemedText style={styles.addTaskButtonText}>Add Task</ThemedText>
+              </TouchableOpacity>
+            )}
           </Animated.View>
         )}
       </View>
@@ -593,7 +878,34 @@ export default function ListsScreen() {
               {totalCompleted}/{totalTasks} tasks completed
             </ThemedText>
           </View>
-          
+
+          {/* Tags Button */}
+          <TouchableOpacity
+            style={styles.helpButton}
+            onPress={() => router.push('/tags')}
+            activeOpacity={0.7}
+          >
+            <IconSymbol name="tag.fill" size={24} color="#007AFF" />
+          </TouchableOpacity>
+
+          {/* Trash Button */}
+          <TouchableOpacity
+            style={styles.helpButton}
+            onPress={() => router.push('/trash')}
+            activeOpacity={0.7}
+          >
+            <IconSymbol name="trash" size={24} color="#007AFF" />
+          </TouchableOpacity>
+
+          {/* Backup Button */}
+          <TouchableOpacity
+            style={styles.helpButton}
+            onPress={() => router.push('/backup')}
+            activeOpacity={0.7}
+          >
+            <IconSymbol name="square.and.arrow.up" size={24} color="#007AFF" />
+          </TouchableOpacity>
+
           {/* Help Button */}
           <TouchableOpacity
             style={styles.helpButton}
@@ -604,43 +916,113 @@ export default function ListsScreen() {
           </TouchableOpacity>
         </View>
 
-        {/* Categories List */}
-        <FlatList
-          data={categoryLists}
-          renderItem={renderCategorySection}
-          keyExtractor={(item) => item.category}
-          showsVerticalScrollIndicator={false}
-          contentContainerStyle={styles.categoriesList}
+        {/* Search Bar - results replace the lists while searching */}
+        <SearchBar
+          value={search.query}
+          onChangeText={search.setQuery}
+          onClear={search.clear}
         />
 
-        {/* Create New List Button - Moved to bottom */}
-        <TouchableOpacity
-          style={[styles.createListButton, { borderColor }]}
-          onPress={() => setShowCreateModal(true)}
-        >
-          <View style={styles.createListButtonContent}>
-            <IconSymbol name="plus.circle.fill" size={24} color="#FFFFFF" />
-            <ThemedText style={styles.createListButtonText}>Create New List</ThemedText>
-          </View>
-        </TouchableOpacity>
+        {search.isSearching ? (
+          <TaskSearchResults
+            results={search.results}
+            query={search.debouncedQuery}
+            filters={search.filters}
+            onFiltersChange={search.setFilters}
+            onEdit={handleEditTask}
+            onToggleCompletion={toggleTaskCompletion}
+            onDelete={handleDeleteTask}
+          />
+        ) : (
+          <>
+            {/* Categories List - tasks can be dragged onto another list */}
+            <View style={styles.categoriesContainer} {...drag.containerProps}>
+              <FlatList
+                {...drag.scrollProps}
+                data={[...smartListSections, ...categoryLists]}
+                renderItem={renderCategorySection}
+                keyExtractor={(item) => item.id}
+                showsVerticalScrollIndicator={false}
+                contentContainerStyle={styles.categoriesList}
+                ListFooterComponent={
+                  <TouchableOpacity
+                    style={[styles.addTaskButton, { borderColor: borderColor + '50' }]}
+                    onPress={() => openSmartListModal()}
+                  >
+                    <IconSymbol name={SMART_LIST_ICON} size={14} color={borderColor} />
+                    <ThemedText style={styles.addTaskButtonText}>New Smart List</ThemedText>
+                  </TouchableOpacity>
+                }
+              />
 
-        {/* Help text for list management */}
-        {categoryLists.length > 0 && (
-          <ThemedText style={styles.helpText}>
-            Tap to expand/collapse • Hold to delete list
-          </ThemedText>
+              {/* Drag preview following the finger */}
+              {drag.draggingItem?.kind === 'task' && (
+                <Animated.View pointerEvents="none" style={drag.previewStyle}>
+                  <View style={[styles.dragPreview, { backgroundColor, borderColor }]}>
+                    <View
+                      style={[
+                        styles.dragPreviewIndicator,
+                        { backgroundColor: getCategoryList(drag.draggingItem.task.listId)?.color || '#8E8E93' }
+                      ]}
+                    />
+                    <ThemedText type="defaultSemiBold" numberOfLines={1} style={styles.dragPreviewTitle}>
+                      {drag.draggingItem.task.title}
+                    </ThemedText>
+                  </View>
+                </Animated.View>
+              )}
+              {drag.draggingItem?.kind === 'list' && (
+                <Animated.View pointerEvents="none" style={drag.previewStyle}>
+                  <View style={[styles.dragPreview, { backgroundColor, borderColor }]}>
+                    <IconSymbol
+                      name={drag.draggingItem.list.icon as any}
+                      size={20}
+                      color={drag.draggingItem.list.color}
+                      style={styles.dragPreviewIcon}
+                    />
+                    <ThemedText type="subtitle" numberOfLines={1} style={styles.dragPreviewTitle}>
+                      {drag.draggingItem.list.category}
+                    </ThemedText>
+                  </View>
+                </Animated.View>
+              )}
+            </View>
+
+            {selection.isSelecting ? (
+              /* Bulk actions for the selected tasks */
+              <BulkActionBar
+                selectedIds={selection.selectedIds}
+                onCancel={selection.clear}
+                onApplied={handleBulkApplied}
+              />
+            ) : (
+              <>
+                {/* Create New List Button - Moved to bottom */}
+                <TouchableOpacity
+                  style={[styles.createListButton, { borderColor }]}
+                  onPress={openCreateListModal}
+                >
+                  <View style={styles.createListButtonContent}>
+                    <IconSymbol name="plus.circle.fill" size={24} color="#FFFFFF" />
+                    <ThemedText style={styles.createListButtonText}>Create New List</ThemedText>
+                  </View>
+                </TouchableOpacity>
+
+                {/* Help text for list management */}
+                {categoryLists.length > 0 && (
+                  <ThemedText style={styles.helpText}>
+                    Tap to expand/collapse • Hold to edit or delete list
+                  </ThemedText>
+                )}
+              </>
+            )}
+          </>
         )}
 
         {/* Snackbar */}
-        <Snackbar
-          visible={snackbarVisible}
-          message={`"${deletedTaskTitle}" deleted`}
-          actionText="UNDO"
-          onAction={handleUndoDelete}
-          onDismiss={handleSnackbarDismiss}
-        />
+        <Snackbar {...undoSnackbar.snackbarProps} />
 
-        {/* Create List Modal */}
+        {/* Create / Edit List Modal */}
         <Modal
           visible={showCreateModal}
           animationType="slide"
@@ -648,13 +1030,13 @@ export default function ListsScreen() {
         >
           <SafeAreaView style={[styles.modalContainer, { backgroundColor: modalBackground }]}>
             <View style={styles.modalHeader}>
-              <TouchableOpacity onPress={() => setShowCreateModal(false)}>
+              <TouchableOpacity onPress={closeListModal}>
                 <ThemedText style={styles.modalCancelText}>Cancel</ThemedText>
               </TouchableOpacity>
-              <ThemedText type="subtitle">New List</ThemedText>
-              <TouchableOpacity onPress={createNewList}>
+              <ThemedText type="subtitle">{editingListId ? 'Edit List' : 'New List'}</ThemedText>
+              <TouchableOpacity onPress={saveList}>
                 <ThemedText style={[styles.modalCreateText, { color: newListData.color }]}>
-                  Create
+                  {editingListId ? 'Save' : 'Create'}
                 </ThemedText>
               </TouchableOpacity>
             </View>
@@ -727,6 +1109,16 @@ export default function ListsScreen() {
             </View>
 
             <ScrollView style={styles.modalContent}>
+              {/* List */}
+              <View style={styles.inputSection}>
+                <ThemedText style={styles.sectionLabel}>List</ThemedText>
+                <ListPicker
+                  lists={categoryLists}
+                  selectedListId={newTaskData.listId}
+                  onSelect={(listId) => setNewTaskData(prev => ({ ...prev, listId }))}
+                />
+              </View>
+
               {/* Task Title */}
               <View style={styles.inputSection}>
                 <ThemedText style={styles.sectionLabel}>Task Name</ThemedText>
@@ -776,6 +1168,12 @@ export default function ListsScreen() {
                     minimumDate={new Date()}
                   />
                 )}
+
+                <DueTimePicker
+                  dueDate={newTaskData.dueDate}
+                  hasDueTime={newTaskData.hasDueTime}
+                  onChange={(dueDate, hasDueTime) => setNewTaskData(prev => ({ ...prev, dueDate, hasDueTime }))}
+                />
               </View>
 
               {/* Priority */}
@@ -786,6 +1184,34 @@ export default function ListsScreen() {
                 </View>
               </View>
 
+              {/* Repeat */}
+              <View style={styles.inputSection}>
+                <ThemedText style={styles.sectionLabel}>Repeat</ThemedText>
+                <RepeatPicker
+                  rule={newTaskData.recurrence}
+                  dueDate={newTaskData.dueDate}
+                  onChange={(recurrence) => setNewTaskData(prev => ({ ...prev, recurrence }))}
+                />
+              </View>
+
+              {/* Reminders */}
+              <View style={styles.inputSection}>
+                <ThemedText style={styles.sectionLabel}>Reminders (Optional)</ThemedText>
+                <ReminderPicker
+                  reminders={newTaskData.reminders}
+                  onChange={(reminders) => setNewTaskData(prev => ({ ...prev, reminders }))}
+                />
+              </View>
+
+              {/* Tags */}
+              <View style={styles.inputSection}>
+                <ThemedText style={styles.sectionLabel}>Tags (Optional)</ThemedText>
+                <TagInput
+                  tags={newTaskData.tags}
+                  onChange={(tags) => setNewTaskData(prev => ({ ...prev, tags }))}
+                />
+              </View>
+
               {/* Subtasks */}
               <View style={styles.inputSection}>
                 <View style={styles.subtaskHeader}>
@@ -839,6 +1265,16 @@ export default function ListsScreen() {
               </View>
 
               <ScrollView style={styles.modalContent}>
+                {/* List */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>List</ThemedText>
+                  <ListPicker
+                    lists={categoryLists}
+                    selectedListId={editingTask.listId}
+                    onSelect={(listId) => setEditingTask({ ...editingTask, listId })}
+                  />
+                </View>
+
                 {/* Task Title */}
                 <View style={styles.inputSection}>
                   <ThemedText style={styles.sectionLabel}>Task Name</ThemedText>
@@ -899,6 +1335,12 @@ export default function ListsScreen() {
                       minimumDate={new Date()}
                     />
                   )}
+
+                  <DueTimePicker
+                    dueDate={editingTask.dueDate}
+                    hasDueTime={!!editingTask.hasDueTime}
+                    onChange={(dueDate, hasDueTime) => setEditingTask({ ...editingTask, dueDate, hasDueTime })}
+                  />
                 </View>
 
                 {/* Priority */}
@@ -931,6 +1373,34 @@ export default function ListsScreen() {
                   </View>
                 </View>
 
+                {/* Repeat */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>Repeat</ThemedText>
+                  <RepeatPicker
+                    rule={editingTask.recurrence}
+                    dueDate={editingTask.dueDate}
+                    onChange={(recurrence) => setEditingTask({ ...editingTask, recurrence })}
+                  />
+                </View>
+
+                {/* Reminders */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>Reminders (Optional)</ThemedText>
+                  <ReminderPicker
+                    reminders={editingTask.reminders}
+                    onChange={(reminders) => setEditingTask({ ...editingTask, reminders })}
+                  />
+                </View>
+
+                {/* Tags */}
+                <View style={styles.inputSection}>
+                  <ThemedText style={styles.sectionLabel}>Tags (Optional)</ThemedText>
+                  <TagInput
+                    tags={editingTask.tags}
+                    onChange={(tags) => setEditingTask({ ...editingTask, tags })}
+                  />
+                </View>
+
                 {/* Subtasks */}
                 <View style={styles.inputSection}>
                   <View style={styles.subtaskHeader}>
@@ -941,7 +1411,7 @@ export default function ListsScreen() {
                         const currentSubtasks = editingTask.subtasks || [];
                         setEditingTask({
                           ...editingTask,
-                          subtasks: [...currentSubtasks, { id: Date.now().toString(), name: '', completed: false }]
+                          subtasks: [...currentSubtasks, { id: generateId(), name: '', completed: false }]
                         });
                       }}
                     >
@@ -980,11 +1450,35 @@ export default function ListsScreen() {
                     </View>
                   )}
                 </View>
+
+                {/* Timestamps */}
+                <TaskMetadata task={editingTask} />
               </ScrollView>
             </SafeAreaView>
           </Modal>
         )}
 
+        {/* Per-list Sort Menu */}
+        <SortMenu
+          visible={sortingListId !== null}
+          title={getCategoryList(sortingListId ?? '')?.category ?? ''}
+          sort={getCategoryList(sortingListId ?? '')?.sort ?? DEFAULT_LIST_SORT}
+          onChange={(sort) => {
+            if (!sortingListId) return;
+            LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+            updateCategoryList(sortingListId, { sort });
+          }}
+          onClose={() => setSortingListId(null)}
+        />
+
+        {/* Create / Edit Smart List Modal */}
+        <SmartListModal
+          visible={showSmartListModal}
+          smartList={editingSmartList}
+          colorOptions={PREDEFINED_COLORS}
+          onClose={() => setShowSmartListModal(false)}
+        />
+
         {/* Welcome Modal for help */}
         <WelcomeModal
           visible={showWelcomeModal}
@@ -1027,8 +1521,12 @@ const styles = StyleSheet.create({
   categoriesList: {
     paddingBottom: 10, // Reduced since Create New List button is now below
   },
+  categoriesContainer: {
+    flex: 1,
+  },
   categorySection: {
     marginBottom: 32,
+    borderRadius: 12,
   },
   categoryHeader: {
     flexDirection: 'row',
@@ -1055,6 +1553,12 @@ const styles = StyleSheet.create({
     opacity: 0.6,
     fontWeight: '500',
   },
+  listHeaderButton: {
+    marginLeft: 12,
+  },
+  taskRow: {
+    borderRadius: 12,
+  },
   categoryProgress: {
     marginBottom: 16,
   },
@@ -1356,4 +1860,33 @@ const styles = StyleSheet.create({
     marginTop: 12,
     textAlign: 'center',
   },
-}); 
\ No newline at end of file
+  smartListFilterText: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 12,
+  },
+  dragPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+  },
+  dragPreviewIndicator: {
+    width: 4,
+    height: 24,
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  dragPreviewIcon: {
+    marginRight: 8,
+  },
+  dragPreviewTitle: {
+    flex: 1,
+  },
+});
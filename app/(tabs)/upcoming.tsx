@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Upcoming screen showing incomplete tasks grouped by day
+ * Features a 7/30-day agenda with sticky day headers and drag-to-reschedule
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Animated, LayoutAnimation, Platform, ScrollView, StyleSheet, TouchableOpacity, UIManager, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { EditTaskModal } from '@/components/EditTaskModal';
+import { TaskGestureHandler } from '@/components/TaskGestureHandler';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useDragAndDrop } from '@/hooks/useDragAndDrop';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { Snackbar } from '@/src/components/ui/Snackbar';
+import { DayTaskGroup, Task } from '@/src/types';
+
+/** Agenda lengths offered by the range toggle */
+const RANGE_OPTIONS = [7, 30];
+
+/**
+ * Formats a day header, e.g. "Today", "Tomorrow" or "Wednesday"
+ */
+const formatDayName = (date: Date, index: number): string => {
+  if (index === 0) return 'Today';
+  if (index === 1) return 'Tomorrow';
+  return date.toLocaleDateString('en-US', { weekday: 'long' });
+};
+
+/**
+ * Upcoming Screen Component
+ *
+ * Displays the agenda for the coming days with the following features:
+ * - 7 or 30 day range
+ * - Incomplete tasks grouped under sticky day headers (empty days included)
+ * - Long press and drag a task onto another day to reschedule it
+ * - Tap to edit, tap ✓ to complete, swipe left to delete with undo
+ *
+ * @returns JSX.Element - The upcoming screen component
+ */
+export default function UpcomingScreen() {
+  const {
+    getUpcomingTasks,
+    rescheduleTasks,
+    toggleTaskCompletion,
+    deleteTask,
+    getCategoryList
+  } = useTaskContext();
+
+  const [rangeDays, setRangeDays] = useState(RANGE_OPTIONS[0]);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const undoSnackbar = useUndoSnackbar();
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const backgroundColor = useThemeColor({}, 'background');
+  const highlightColor = useThemeColor({ light: '#E5F0FF', dark: '#0A2A4D' }, 'background');
+
+  const groups = getUpcomingTasks(rangeDays);
+  const taskCount = groups.reduce((count, group) => count + group.tasks.length, 0);
+
+  /**
+   * Moves a dropped task onto the target day, keeping its time of day
+   */
+  const drag = useDragAndDrop<Task>({
+    onDrop: (task, dayKey) => {
+      const group = groups.find(g => g.date.toDateString() === dayKey);
+      if (group && task.dueDate.toDateString() !== dayKey) {
+        LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+        rescheduleTasks([task.id], group.date);
+      }
+    },
+  });
+
+  /**
+   * Configure layout animations for Android compatibility
+   */
+  useEffect(() => {
+    if (Platform.OS === 'android') {
+      if (UIManager.setLayoutAnimationEnabledExperimental) {
+        UIManager.setLayoutAnimationEnabledExperimental(true);
+      }
+    }
+  }, []);
+
+  /**
+   * Handles task completion toggle; completed tasks leave the agenda
+   *
+   * @param taskId - Unique identifier of the task to toggle
+   */
+  const handleToggleTaskCompletion = (taskId: string) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    toggleTaskCompletion(taskId);
+  };
+
+  /**
+   * Handles task deletion with undo functionality
+   *
+   * @param taskId - Unique identifier of the task to delete
+   */
+  const handleDeleteTask = (taskId: string) => {
+    deleteTask(taskId);
+    undoSnackbar.show();
+  };
+
+  /**
+   * Renders one day: a sticky header followed by its tasks (the drop target)
+   *
+   * @param group - Tasks due on the day
+   * @param index - Day offset from today
+   * @returns Header and body elements, as separate ScrollView children
+   */
+  const renderDay = (group: DayTaskGroup, index: number) => {
+    const dayKey = group.date.toDateString();
+    const isDropTarget = drag.draggingItem !== null && drag.hoverKey === dayKey;
+
+    return [
+      <View key={`${dayKey}-header`} style={[styles.dayHeader, { backgroundColor, borderColor }]}>
+        <View>
+          <ThemedText type="defaultSemiBold">{formatDayName(group.date, index)}</ThemedText>
+          <ThemedText style={styles.dayDate}>
+            {group.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </ThemedText>
+        </View>
+        {group.tasks.length > 0 && (
+          <ThemedText style={styles.dayCount}>{group.tasks.length}</ThemedText>
+        )}
+      </View>,
+      <View
+        key={`${dayKey}-tasks`}
+        ref={drag.registerTarget(dayKey)}
+        style={[styles.dayTasks, isDropTarget && { backgroundColor: highlightColor }]}
+      >
+        {group.tasks.length === 0 ? (
+          <ThemedText style={styles.emptyDayText}>No tasks</ThemedText>
+        ) : (
+          group.tasks.map(task => (
+            <TaskGestureHandler
+              key={task.id}
+              task={task}
+              categoryColor={getCategoryList(task.listId)?.color || '#8E8E93'}
+              onEdit={setEditingTask}
+              onToggleCompletion={handleToggleTaskCompletion}
+              onDelete={handleDeleteTask}
+              onLongPress={(item, event) => drag.startDrag(item, event.nativeEvent.pageY)}
+              isDragging={drag.draggingItem?.id === task.id}
+              showCategoryName={true}
+              categoryName={getCategoryList(task.listId)?.category}
+            />
+          ))
+        )}
+      </View>,
+    ];
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ThemedView style={styles.content}>
+        {/* Header Section */}
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            Upcoming
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>
+            {taskCount} {taskCount === 1 ? 'task' : 'tasks'} in the next {rangeDays} days
+          </ThemedText>
+        </View>
+
+        {/* Range Toggle */}
+        <View style={[styles.rangeToggle, { borderColor }]}>
+          {RANGE_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.rangeOption, rangeDays === days && styles.selectedRangeOption]}
+              onPress={() => setRangeDays(days)}
+            >
+              <ThemedText style={[styles.rangeText, rangeDays === days && styles.selectedRangeText]}>
+                {days} days
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.helpText}>
+          Hold and drag a task onto another day to reschedule
+        </ThemedText>
+
+        {/* Agenda */}
+        <View style={styles.agenda} {...drag.containerProps}>
+          <ScrollView
+            {...drag.scrollProps}
+            stickyHeaderIndices={groups.map((_, index) => index * 2)}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={styles.agendaContent}
+          >
+            {groups.flatMap(renderDay)}
+          </ScrollView>
+
+          {/* Drag preview following the finger */}
+          {drag.draggingItem && (
+            <Animated.View pointerEvents="none" style={drag.previewStyle}>
+              <View style={[styles.dragPreview, { backgroundColor, borderColor }]}>
+                <View
+                  style={[
+                    styles.dragPreviewIndicator,
+                    { backgroundColor: getCategoryList(drag.draggingItem.listId)?.color || '#8E8E93' }
+                  ]}
+                />
+                <ThemedText type="defaultSemiBold" numberOfLines={1} style={styles.dragPreviewTitle}>
+                  {drag.draggingItem.title}
+                </ThemedText>
+              </View>
+            </Animated.View>
+          )}
+        </View>
+
+        {/* Snackbar for undo functionality */}
+        <Snackbar {...undoSnackbar.snackbarProps} />
+
+        {/* Edit Task Modal */}
+        <EditTaskModal
+          visible={editingTask !== null}
+          task={editingTask}
+          onClose={() => setEditingTask(null)}
+        />
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    paddingBottom: 100, // Extra padding for tab bar
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  rangeToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  rangeOption: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  selectedRangeOption: {
+    backgroundColor: '#007AFF',
+  },
+  rangeText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedRangeText: {
+    color: '#FFFFFF',
+  },
+  helpText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  agenda: {
+    flex: 1,
+  },
+  agendaContent: {
+    paddingBottom: 20,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  dayDate: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  dayCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  dayTasks: {
+    paddingTop: 12,
+    paddingBottom: 4,
+    borderRadius: 12,
+    minHeight: 48,
+  },
+  emptyDayText: {
+    fontSize: 14,
+    opacity: 0.4,
+    marginBottom: 12,
+  },
+  dragPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+  },
+  dragPreviewIndicator: {
+    width: 4,
+    height: 24,
+    borderRadius: 2,
+    marginRight: 12,
+  },
+  dragPreviewTitle: {
+    flex: 1,
+  },
+});
@@ -4,9 +4,11 @@ import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect, useState } from 'react';
+import { Platform } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 
+import { ReminderBanner } from '@/components/ReminderBanner';
 import { WelcomeModal } from '@/components/WelcomeModal';
 import { TaskProvider } from '@/contexts/TaskContext';
 import { useColorScheme } from '@/hooks/useColorScheme';
@@ -21,11 +23,15 @@ export default function RootLayout() {
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
   
+  // Whether persisted tasks have been loaded into the TaskProvider
+  const [tasksHydrated, setTasksHydrated] = useState(false);
+  
   // Welcome modal state
   const [showWelcomeModal, setShowWelcomeModal] = useState(false);
 
   useEffect(() => {
-    if (loaded) {
+    // Keep the splash screen up until both fonts and stored tasks are ready
+    if (loaded && tasksHydrated) {
       SplashScreen.hideAsync();
       
       // Check if this is the first launch and show welcome modal
@@ -35,7 +41,7 @@ export default function RootLayout() {
         }
       });
     }
-  }, [loaded]);
+  }, [loaded, tasksHydrated]);
 
   /**
    * Handles closing the welcome modal and marking first launch as complete
@@ -51,13 +57,22 @@ export default function RootLayout() {
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <TaskProvider>
+      <TaskProvider onHydrated={() => setTasksHydrated(true)}>
         <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
           <Stack>
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="search" options={{ title: 'Search' }} />
+            <Stack.Screen name="tags/index" options={{ title: 'Tags' }} />
+            <Stack.Screen name="tags/[tag]" />
+            <Stack.Screen name="trash" options={{ title: 'Trash' }} />
+            <Stack.Screen name="backup" options={{ title: 'Backup' }} />
+            <Stack.Screen name="csv-import" options={{ title: 'Import CSV' }} />
             <Stack.Screen name="+not-found" />
           </Stack>
           <StatusBar style="auto" />
+
+          {/* Reminders are shown in-app where local notifications are unavailable */}
+          {Platform.OS === 'web' && <ReminderBanner />}
           
           {/* Welcome Modal for first-time users */}
           <WelcomeModal
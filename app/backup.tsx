@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Backup screen exporting every list and task as JSON or CSV, and importing a backup
+ * A backup is shared as text (to Files, mail, notes…) and imported by pasting that text back
+ */
+
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { Alert, LayoutAnimation, ScrollView, Share, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { Snackbar } from '@/src/components/ui/Snackbar';
+import { BackupFormatError, exportTasksCsv, mergeCategoryLists, parseBackup, serializeBackup } from '@/src/storage';
+import { BackupParseResult, ImportMode } from '@/src/types';
+import { formatDate } from '@/src/utils';
+
+/**
+ * Counts lists and tasks for display, e.g. "2 lists, 1 task"
+ */
+const describeCounts = (lists: number, tasks: number): string =>
+  `${lists} ${lists === 1 ? 'list' : 'lists'}, ${tasks} ${tasks === 1 ? 'task' : 'tasks'}`;
+
+/**
+ * Backup Screen Component
+ *
+ * Features:
+ * - Share a versioned JSON backup of all lists, tasks and subtasks
+ * - Paste a backup to check it: invalid lists and tasks are listed and left out
+ * - Merge the backup (only new ids are added) or replace all lists with it; both can be undone
+ * - Share every task as CSV, or open the CSV import wizard
+ *
+ * @returns JSX.Element - The backup screen component
+ */
+export default function BackupScreen() {
+  const { categoryLists, importCategoryLists } = useTaskContext();
+  const undoSnackbar = useUndoSnackbar();
+
+  const [backupText, setBackupText] = useState('');
+  const [parsed, setParsed] = useState<BackupParseResult | null>(null);
+  const [formatError, setFormatError] = useState<string | null>(null);
+
+  // Theme-aware colors
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+
+  const taskCount = categoryLists.reduce((count, categoryList) => count + categoryList.tasks.length, 0);
+
+  /**
+   * Opens the share sheet with a backup of every list
+   */
+  const handleExport = async () => {
+    try {
+      await Share.share({ title: 'Task backup', message: serializeBackup(categoryLists) });
+    } catch (error) {
+      console.error('Error sharing backup:', error);
+      Alert.alert('Export Failed', 'The backup could not be shared. Please try again.');
+    }
+  };
+
+  /**
+   * Opens the share sheet with every task as CSV, one row per task
+   */
+  const handleExportCsv = async () => {
+    try {
+      await Share.share({ title: 'Tasks', message: exportTasksCsv(categoryLists) });
+    } catch (error) {
+      console.error('Error sharing CSV:', error);
+      Alert.alert('Export Failed', 'The CSV could not be shared. Please try again.');
+    }
+  };
+
+  /**
+   * Updates the pasted text, discarding the result of checking the previous text
+   */
+  const handleChangeText = (text: string) => {
+    setBackupText(text);
+    setParsed(null);
+    setFormatError(null);
+  };
+
+  /**
+   * Validates the pasted backup and shows what importing it would do
+   */
+  const handleCheck = () => {
+    try {
+      setParsed(parseBackup(backupText));
+      setFormatError(null);
+    } catch (error) {
+      if (!(error instanceof BackupFormatError)) throw error;
+      setParsed(null);
+      setFormatError(error.message);
+    }
+  };
+
+  /**
+   * Imports the checked backup and offers to undo
+   *
+   * @param mode - Whether to merge with or replace the current lists
+   */
+  const applyImport = (mode: ImportMode) => {
+    if (!parsed) return;
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    importCategoryLists(parsed.categoryLists, mode);
+    handleChangeText('');
+    undoSnackbar.show();
+  };
+
+  /**
+   * Confirms before every current list is replaced
+   */
+  const handleReplace = () => {
+    Alert.alert(
+      'Replace All Lists',
+      `Your ${describeCounts(categoryLists.length, taskCount)} will be replaced by the backup. You can undo this right after.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Replace',
+          style: 'destructive',
+          onPress: () => applyImport('replace'),
+        },
+      ]
+    );
+  };
+
+  const renderPreview = (result: BackupParseResult) => {
+    const importedTasks = result.categoryLists.reduce((count, categoryList) => count + categoryList.tasks.length, 0);
+    const merge = mergeCategoryLists(categoryLists, result.categoryLists);
+
+    return (
+      <View style={styles.preview}>
+        <ThemedText type="defaultSemiBold">
+          {describeCounts(result.categoryLists.length, importedTasks)}
+          {result.exportedAt && ` from ${formatDate(result.exportedAt, { format: 'short', includeTime: true })}`}
+        </ThemedText>
+
+        {result.errors.length > 0 && (
+          <View style={styles.errorList}>
+            <ThemedText style={styles.errorTitle}>
+              {result.errors.length} {result.errors.length === 1 ? 'record' : 'records'} will be skipped:
+            </ThemedText>
+            {result.errors.map((error, index) => (
+              <ThemedText key={index} style={styles.errorText}>
+                {error.record}: {error.message}
+              </ThemedText>
+            ))}
+          </View>
+        )}
+
+        <ThemedText style={styles.helpText}>
+          Merge adds {describeCounts(merge.addedLists, merge.addedTasks)}
+          {merge.skippedTasks > 0 && ` and skips ${merge.skippedTasks} already here`}.
+        </ThemedText>
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.rowButton, styles.primaryButton]}
+            onPress={() => applyImport('merge')}
+            activeOpacity={0.7}
+          >
+            <ThemedText style={styles.primaryButtonText}>Merge</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.rowButton, { borderColor }]}
+            onPress={handleReplace}
+            activeOpacity={0.7}
+          >
+            <ThemedText style={styles.destructiveButtonText}>Replace All</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Export */}
+        <View style={styles.section}>
+          <ThemedText type="subtitle">Export</ThemedText>
+          <ThemedText style={styles.helpText}>
+            Saves {describeCounts(categoryLists.length, taskCount)} with their subtasks as JSON text.
+          </ThemedText>
+          <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handleExport} activeOpacity={0.7}>
+            <ThemedText style={styles.primaryButtonText}>Share Backup</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        {/* Import */}
+        <View style={styles.section}>
+          <ThemedText type="subtitle">Import</ThemedText>
+          <ThemedText style={styles.helpText}>Paste the text of a backup to check it before importing.</ThemedText>
+          <TextInput
+            style={[styles.textArea, { backgroundColor: inputBackground, borderColor, color: textColor }]}
+            value={backupText}
+            onChangeText={handleChangeText}
+            placeholder="Paste backup here"
+            placeholderTextColor={borderColor}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity
+            style={[styles.button, { borderColor }, !backupText.trim() && styles.disabledButton]}
+            onPress={handleCheck}
+            disabled={!backupText.trim()}
+            activeOpacity={0.7}
+          >
+            <ThemedText style={styles.secondaryButtonText}>Check Backup</ThemedText>
+          </TouchableOpacity>
+
+          {formatError && <ThemedText style={styles.errorText}>{formatError}</ThemedText>}
+          {parsed && renderPreview(parsed)}
+        </View>
+
+        {/* Spreadsheets */}
+        <View style={styles.section}>
+          <ThemedText type="subtitle">Spreadsheet (CSV)</ThemedText>
+          <ThemedText style={styles.helpText}>
+            One row per task with its list, title, description, due date, priority, completion and subtasks.
+          </ThemedText>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.rowButton, { borderColor }]}
+              onPress={handleExportCsv}
+              activeOpacity={0.7}
+            >
+              <ThemedText style={styles.secondaryButtonText}>Share CSV</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.rowButton, { borderColor }]}
+              onPress={() => router.push('/csv-import')}
+              activeOpacity={0.7}
+            >
+              <ThemedText style={styles.secondaryButtonText}>Import CSV</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* Snackbar for undoing an import */}
+      <Snackbar {...undoSnackbar.snackbarProps} />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 32,
+    gap: 12,
+  },
+  helpText: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  textArea: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 13,
+    borderWidth: 1,
+    minHeight: 140,
+    maxHeight: 240,
+    textAlignVertical: 'top',
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  destructiveButtonText: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowButton: {
+    flex: 1,
+  },
+  preview: {
+    gap: 12,
+  },
+  errorList: {
+    gap: 4,
+  },
+  errorTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+});
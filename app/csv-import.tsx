@@ -0,0 +1,432 @@
+/**
+ * @fileoverview CSV import wizard turning spreadsheet rows into tasks
+ * Steps: pick or paste the CSV, map its columns to task fields with a preview, then import and review skipped rows
+ */
+
+import { router } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { Alert, LayoutAnimation, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { Snackbar } from '@/src/components/ui/Snackbar';
+import { CSV_COLUMNS, groupCsvTasks, guessCsvDateOrder, guessCsvMapping, parseCsv, pickCsvFile, readCsvTasks } from '@/src/storage';
+import { CsvColumnMapping, CsvDateOrder, CsvField, CsvSkippedRow } from '@/src/types';
+import { formatDate } from '@/src/utils';
+
+/** Number of rows shown in the mapping preview */
+const PREVIEW_ROWS = 5;
+
+/** Delimiter choices; null detects the delimiter from the first row */
+const DELIMITER_OPTIONS: { value: string | null; label: string }[] = [
+  { value: null, label: 'Auto' },
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+/** Day and month order choices for dates written with slashes or dots */
+const DATE_ORDER_OPTIONS: { value: CsvDateOrder; label: string }[] = [
+  { value: 'mdy', label: 'Month/Day/Year' },
+  { value: 'dmy', label: 'Day/Month/Year' },
+];
+
+type WizardStep = 'paste' | 'map' | 'done';
+
+/**
+ * Outcome of an import, shown on the last step
+ */
+interface ImportReport {
+  importedCount: number;
+  newListNames: string[];
+  skipped: CsvSkippedRow[];
+}
+
+/**
+ * CSV Import Screen Component
+ *
+ * Features:
+ * - Reads a picked .csv file or pasted text
+ * - Reads comma, semicolon, tab or pipe separated text, with quoted fields and line breaks
+ * - Column mapping guessed from the header row, adjustable per task field
+ * - Day/month order for slash dates, guessed from the due dates and adjustable
+ * - Preview of the first rows as they will be imported, with the reason any is skipped
+ * - Lists named in the file that do not exist yet are created
+ * - Report of imported tasks, created lists and skipped rows; the import can be undone
+ *
+ * @returns JSX.Element - The CSV import screen component
+ */
+export default function CsvImportScreen() {
+  const { categoryLists, importCategoryLists } = useTaskContext();
+  const undoSnackbar = useUndoSnackbar();
+
+  const [step, setStep] = useState<WizardStep>('paste');
+  const [csvText, setCsvText] = useState('');
+  // Name of the picked file, cleared once the text is edited
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [delimiter, setDelimiter] = useState<string | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [dateOrder, setDateOrder] = useState<CsvDateOrder>('mdy');
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  // Theme-aware colors
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+
+  const rows = useMemo(
+    () => (csvText.trim() ? parseCsv(csvText, delimiter ?? undefined) : []),
+    [csvText, delimiter]
+  );
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.cells.length), 0);
+  const columnNames = Array.from({ length: columnCount }, (_, column) =>
+    (hasHeader && rows[0].cells[column]?.trim()) || `Column ${column + 1}`
+  );
+
+  const preview = useMemo(
+    () => readCsvTasks(rows.slice(0, PREVIEW_ROWS + (hasHeader ? 1 : 0)), mapping, { hasHeader, dateOrder }),
+    [rows, mapping, hasHeader, dateOrder]
+  );
+
+  /**
+   * Loads the text of a CSV file chosen by the user
+   */
+  const handlePickFile = async () => {
+    try {
+      const file = await pickCsvFile();
+      if (!file) return;
+      setCsvText(file.text);
+      setFileName(file.name);
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      Alert.alert('Import Failed', 'The file could not be read. Please try again.');
+    }
+  };
+
+  /**
+   * Updates the pasted text, forgetting the picked file it came from
+   */
+  const handleChangeText = (text: string) => {
+    setCsvText(text);
+    setFileName(null);
+  };
+
+  /**
+   * Moves to the mapping step, guessing the mapping from the header row and the date order from the due dates
+   */
+  const handleContinue = () => {
+    const guessed = hasHeader ? guessCsvMapping(rows[0].cells) : {};
+    // Without a recognized title column, the first column is the most likely one
+    setMapping(guessed.title === undefined ? { ...guessed, title: 0 } : guessed);
+    setDateOrder(guessCsvDateOrder(rows, guessed.dueDate));
+    setStep('map');
+  };
+
+  /**
+   * Maps a field to a column, or leaves it unmapped
+   */
+  const handleMap = (field: CsvField, column: number | undefined) => {
+    setMapping(prev => ({ ...prev, [field]: column }));
+    if (field === 'dueDate') setDateOrder(guessCsvDateOrder(rows, column));
+  };
+
+  /**
+   * Imports every readable row as one undoable step
+   */
+  const handleImport = () => {
+    const { tasks, skipped } = readCsvTasks(rows, mapping, { hasHeader, dateOrder });
+    const { categoryLists: imported, newListNames } = groupCsvTasks(tasks, categoryLists, new Date());
+
+    if (tasks.length > 0) {
+      LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+      importCategoryLists(imported, 'merge');
+      undoSnackbar.show();
+    }
+    setReport({ importedCount: tasks.length, newListNames, skipped });
+    setStep('done');
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { borderColor }, selected && styles.selectedChip]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.selectedChipText]} numberOfLines={1}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderSkippedRows = (skipped: CsvSkippedRow[]) => (
+    <View style={styles.skippedList}>
+      {skipped.map(({ row, reason }) => (
+        <ThemedText key={row} style={styles.skippedText}>
+          Line {row}: {reason}
+        </ThemedText>
+      ))}
+    </View>
+  );
+
+  const renderPasteStep = () => (
+    <View style={styles.section}>
+      <ThemedText style={styles.helpText}>
+        Choose a CSV file saved from a spreadsheet, or paste rows copied from one.
+      </ThemedText>
+      <TouchableOpacity style={[styles.button, { borderColor }]} onPress={handlePickFile} activeOpacity={0.7}>
+        <ThemedText style={styles.secondaryButtonText}>Choose CSV File</ThemedText>
+      </TouchableOpacity>
+      {fileName && <ThemedText style={styles.helpText}>Loaded {fileName}</ThemedText>}
+      <TextInput
+        style={[styles.textArea, { backgroundColor: inputBackground, borderColor, color: textColor }]}
+        value={csvText}
+        onChangeText={handleChangeText}
+        placeholder="List,Title,Due Date…"
+        placeholderTextColor={borderColor}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <ThemedText style={styles.label}>Separator</ThemedText>
+      <View style={styles.chipGrid}>
+        {DELIMITER_OPTIONS.map(option =>
+          renderChip(option.label, option.label, delimiter === option.value, () => setDelimiter(option.value))
+        )}
+      </View>
+
+      <View style={styles.switchRow}>
+        <ThemedText>First row is a header</ThemedText>
+        <Switch value={hasHeader} onValueChange={setHasHeader} trackColor={{ true: '#007AFF' }} />
+      </View>
+
+      {rows.length > 0 && (
+        <ThemedText style={styles.helpText}>
+          {rows.length - (hasHeader ? 1 : 0)} rows, {columnCount} {columnCount === 1 ? 'column' : 'columns'}
+        </ThemedText>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, styles.primaryButton, rows.length === 0 && styles.disabledButton]}
+        onPress={handleContinue}
+        disabled={rows.length === 0}
+        activeOpacity={0.7}
+      >
+        <ThemedText style={styles.primaryButtonText}>Next: Map Columns</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderMapStep = () => (
+    <View style={styles.section}>
+      {CSV_COLUMNS.map(({ field, header }) => (
+        <View key={field} style={styles.mappingRow}>
+          <ThemedText style={styles.label}>
+            {header}{field === 'title' ? ' (required)' : ''}
+          </ThemedText>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {field !== 'title' && renderChip('none', 'Not imported', mapping[field] === undefined, () => handleMap(field, undefined))}
+            {columnNames.map((name, column) =>
+              renderChip(String(column), name, mapping[field] === column, () => handleMap(field, column))
+            )}
+          </ScrollView>
+        </View>
+      ))}
+
+      {mapping.dueDate !== undefined && (
+        <View style={styles.mappingRow}>
+          <ThemedText style={styles.label}>Date Order</ThemedText>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {DATE_ORDER_OPTIONS.map(option =>
+              renderChip(option.value, option.label, dateOrder === option.value, () => setDateOrder(option.value))
+            )}
+          </ScrollView>
+        </View>
+      )}
+
+      <ThemedText type="subtitle">Preview</ThemedText>
+      {preview.tasks.map(task => (
+        <View key={task.row} style={[styles.previewRow, { borderColor }]}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            {task.priority ? `${task.priority} ` : ''}{task.title}
+          </ThemedText>
+          <ThemedText style={styles.previewMeta} numberOfLines={1}>
+            {task.listName} • {formatDate(task.dueDate, { format: 'short', includeTime: task.hasDueTime })}
+            {task.completed ? ' • Completed' : ''}
+            {task.subtasks.length > 0 ? ` • ${task.subtasks.length} subtasks` : ''}
+          </ThemedText>
+        </View>
+      ))}
+      {preview.skipped.length > 0 && renderSkippedRows(preview.skipped)}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.rowButton, { borderColor }]}
+          onPress={() => setStep('paste')}
+          activeOpacity={0.7}
+        >
+          <ThemedText style={styles.secondaryButtonText}>Back</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.rowButton, styles.primaryButton]}
+          onPress={handleImport}
+          activeOpacity={0.7}
+        >
+          <ThemedText style={styles.primaryButtonText}>Import</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderDoneStep = (result: ImportReport) => (
+    <View style={styles.section}>
+      <ThemedText type="subtitle">
+        {result.importedCount} {result.importedCount === 1 ? 'task' : 'tasks'} imported
+      </ThemedText>
+      {result.newListNames.length > 0 && (
+        <ThemedText style={styles.helpText}>New lists: {result.newListNames.join(', ')}</ThemedText>
+      )}
+      {result.skipped.length > 0 && (
+        <>
+          <ThemedText style={styles.skippedTitle}>
+            {result.skipped.length} {result.skipped.length === 1 ? 'row was' : 'rows were'} skipped:
+          </ThemedText>
+          {renderSkippedRows(result.skipped)}
+        </>
+      )}
+      <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={() => router.back()} activeOpacity={0.7}>
+        <ThemedText style={styles.primaryButtonText}>Done</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {step === 'paste' && renderPasteStep()}
+        {step === 'map' && renderMapStep()}
+        {step === 'done' && report && renderDoneStep(report)}
+      </ScrollView>
+
+      {/* Snackbar for undoing the import */}
+      <Snackbar {...undoSnackbar.snackbarProps} />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    gap: 12,
+    marginBottom: 32,
+  },
+  helpText: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  textArea: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 13,
+    borderWidth: 1,
+    minHeight: 140,
+    maxHeight: 240,
+    textAlignVertical: 'top',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    maxWidth: 160,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  mappingRow: {
+    gap: 6,
+  },
+  previewRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    gap: 2,
+  },
+  previewMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  skippedList: {
+    gap: 4,
+  },
+  skippedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  skippedText: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    alignItems: 'center',
+  },
+  rowButton: {
+    flex: 1,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Search screen for finding tasks across all lists
+ * Matches titles, descriptions and subtask names with completion and list filters
+ */
+
+import React, { useEffect, useState } from 'react';
+import { LayoutAnimation, Platform, StyleSheet, UIManager } from 'react-native';
+
+import { EditTaskModal } from '@/components/EditTaskModal';
+import { SearchBar } from '@/components/SearchBar';
+import { TaskSearchResults } from '@/components/TaskSearchResults';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useTaskSearch } from '@/hooks/useTaskSearch';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { Snackbar } from '@/src/components/ui/Snackbar';
+import { Task } from '@/src/types';
+
+/**
+ * Search Screen Component
+ *
+ * Features:
+ * - Incremental search as you type
+ * - Completion and list filters
+ * - Highlighted matches; tap to edit, tap ✓ to complete, swipe left to delete with undo
+ *
+ * @returns JSX.Element - The search screen component
+ */
+export default function SearchScreen() {
+  const { toggleTaskCompletion, deleteTask } = useTaskContext();
+  const search = useTaskSearch();
+
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const undoSnackbar = useUndoSnackbar();
+
+  /**
+   * Configure layout animations for Android compatibility
+   */
+  useEffect(() => {
+    if (Platform.OS === 'android') {
+      if (UIManager.setLayoutAnimationEnabledExperimental) {
+        UIManager.setLayoutAnimationEnabledExperimental(true);
+      }
+    }
+  }, []);
+
+  /**
+   * Handles task completion toggle with animation
+   *
+   * @param taskId - Unique identifier of the task to toggle
+   */
+  const handleToggleTaskCompletion = (taskId: string) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    toggleTaskCompletion(taskId);
+  };
+
+  /**
+   * Handles task deletion with undo functionality
+   *
+   * @param taskId - Unique identifier of the task to delete
+   */
+  const handleDeleteTask = (taskId: string) => {
+    deleteTask(taskId);
+    undoSnackbar.show();
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SearchBar
+        value={search.query}
+        onChangeText={search.setQuery}
+        onClear={search.clear}
+        autoFocus={true}
+      />
+
+      <TaskSearchResults
+        results={search.results}
+        query={search.debouncedQuery}
+        filters={search.filters}
+        onFiltersChange={search.setFilters}
+        onEdit={setEditingTask}
+        onToggleCompletion={handleToggleTaskCompletion}
+        onDelete={handleDeleteTask}
+      />
+
+      {/* Snackbar for undo functionality */}
+      <Snackbar {...undoSnackbar.snackbarProps} />
+
+      {/* Edit Task Modal */}
+      <EditTaskModal
+        visible={editingTask !== null}
+        task={editingTask}
+        onClose={() => setEditingTask(null)}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+});
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Filtered view of the tasks carrying a single tag
+ */
+
+import { Stack, useLocalSearchParams } from 'expo-router';
+import React, { useState } from 'react';
+import { FlatList, LayoutAnimation, StyleSheet } from 'react-native';
+
+import { EditTaskModal } from '@/components/EditTaskModal';
+import { TaskGestureHandler } from '@/components/TaskGestureHandler';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { Snackbar } from '@/src/components/ui/Snackbar';
+import { Task } from '@/src/types';
+
+/**
+ * Tag Screen Component
+ *
+ * Lists every task with the tag from the route, across all lists.
+ * Tap to edit, tap ✓ to complete, swipe left to delete with undo.
+ *
+ * @returns JSX.Element - The tag screen component
+ */
+export default function TagScreen() {
+  const { tag = '' } = useLocalSearchParams<{ tag: string }>();
+  const { getTasksWithTag, toggleTaskCompletion, deleteTask, getCategoryList } = useTaskContext();
+
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const undoSnackbar = useUndoSnackbar();
+
+  // Incomplete tasks first; each group stays ordered by due date
+  const tasks = [...getTasksWithTag(tag)].sort((a, b) => Number(a.completed) - Number(b.completed));
+
+  /**
+   * Handles task completion toggle with animation
+   *
+   * @param taskId - Unique identifier of the task to toggle
+   */
+  const handleToggleTaskCompletion = (taskId: string) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    toggleTaskCompletion(taskId);
+  };
+
+  /**
+   * Handles task deletion with undo functionality
+   *
+   * @param taskId - Unique identifier of the task to delete
+   */
+  const handleDeleteTask = (taskId: string) => {
+    deleteTask(taskId);
+    undoSnackbar.show();
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: `#${tag}` }} />
+
+      <FlatList
+        data={tasks}
+        keyExtractor={(task) => task.id}
+        renderItem={({ item }) => (
+          <TaskGestureHandler
+            task={item}
+            categoryColor={getCategoryList(item.listId)?.color || '#8E8E93'}
+            onEdit={setEditingTask}
+            onToggleCompletion={handleToggleTaskCompletion}
+            onDelete={handleDeleteTask}
+            showCategoryName={true}
+            categoryName={getCategoryList(item.listId)?.category}
+          />
+        )}
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>No tasks are tagged #{tag}</ThemedText>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+
+      {/* Snackbar for undo functionality */}
+      <Snackbar {...undoSnackbar.snackbarProps} />
+
+      {/* Edit Task Modal */}
+      <EditTaskModal
+        visible={editingTask !== null}
+        task={editingTask}
+        onClose={() => setEditingTask(null)}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Tag browser listing every tag with its task count
+ * Opens a filtered view per tag and supports renaming or merging tags
+ */
+
+import { router } from 'expo-router';
+import React, { useState } from 'react';
+import { Alert, FlatList, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { TagCount } from '@/src/types';
+import { normalizeTag } from '@/src/utils/tags';
+
+/**
+ * Tag Browser Screen Component
+ *
+ * Features:
+ * - Every tag in use with the number of tasks carrying it
+ * - Tap a tag to see its tasks
+ * - Long press a tag to rename it; renaming onto an existing tag merges the two
+ *
+ * @returns JSX.Element - The tag browser screen component
+ */
+export default function TagBrowserScreen() {
+  const { getTags, renameTag } = useTaskContext();
+  const [renamingTag, setRenamingTag] = useState<TagCount | null>(null);
+  const [newName, setNewName] = useState('');
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const modalBackground = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+
+  const tags = getTags();
+
+  /**
+   * Opens the rename dialog for a tag
+   *
+   * @param tagCount - Tag to rename
+   */
+  const openRename = (tagCount: TagCount) => {
+    setRenamingTag(tagCount);
+    setNewName(tagCount.tag);
+  };
+
+  const closeRename = () => {
+    setRenamingTag(null);
+    setNewName('');
+  };
+
+  /**
+   * Renames the tag, confirming first when the new name merges it into an existing tag
+   */
+  const handleRename = () => {
+    if (!renamingTag) return;
+    const target = normalizeTag(newName);
+
+    if (!target) {
+      Alert.alert('Error', 'Please enter a tag name');
+      return;
+    }
+    if (target === renamingTag.tag) {
+      closeRename();
+      return;
+    }
+
+    const existing = tags.find(({ tag }) => tag === target);
+    if (!existing) {
+      renameTag(renamingTag.tag, target);
+      closeRename();
+      return;
+    }
+
+    const taskText = renamingTag.count === 1 ? 'task' : 'tasks';
+    Alert.alert(
+      'Merge Tags',
+      `#${target} already exists. Merge #${renamingTag.tag} into it? ${renamingTag.count} ${taskText} will be retagged.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Merge',
+          onPress: () => {
+            renameTag(renamingTag.tag, target);
+            closeRename();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderTag = ({ item }: { item: TagCount }) => (
+    <TouchableOpacity
+      style={[styles.tagRow, { borderColor }]}
+      onPress={() => router.push({ pathname: '/tags/[tag]', params: { tag: item.tag } })}
+      onLongPress={() => openRename(item)}
+      activeOpacity={0.7}
+    >
+      <ThemedText type="defaultSemiBold" style={styles.tagName}>#{item.tag}</ThemedText>
+      <ThemedText style={styles.tagCount}>{item.count}</ThemedText>
+      <IconSymbol name="chevron.right" size={16} color={borderColor} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <FlatList
+        data={tags}
+        renderItem={renderTag}
+        keyExtractor={(item) => item.tag}
+        ListHeaderComponent={tags.length > 0 ? (
+          <ThemedText style={styles.helpText}>Tap to view tasks • Hold to rename or merge</ThemedText>
+        ) : null}
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            No tags yet. Add tags to a task when creating or editing it.
+          </ThemedText>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+
+      {/* Rename Tag Dialog */}
+      <Modal
+        visible={renamingTag !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={closeRename}
+      >
+        <View style={styles.dialogOverlay}>
+          <View style={[styles.dialog, { backgroundColor: modalBackground }]}>
+            <ThemedText type="subtitle">Rename #{renamingTag?.tag}</ThemedText>
+            <ThemedText style={styles.dialogHint}>Use an existing tag name to merge the two.</ThemedText>
+            <TextInput
+              style={[styles.dialogInput, { backgroundColor: inputBackground, borderColor, color: textColor }]}
+              value={newName}
+              onChangeText={setNewName}
+              onSubmitEditing={handleRename}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+            />
+            <View style={styles.dialogActions}>
+              <TouchableOpacity onPress={closeRename}>
+                <ThemedText style={styles.dialogCancelText}>Cancel</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleRename}>
+                <ThemedText style={styles.dialogSaveText}>Rename</ThemedText>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  helpText: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  tagName: {
+    flex: 1,
+  },
+  tagCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.6,
+    marginRight: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  dialogOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  dialogHint: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  dialogInput: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+  dialogActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 24,
+  },
+  dialogCancelText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  dialogSaveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
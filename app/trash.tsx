@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Trash screen listing deleted lists and tasks
+ * Restores them, or removes them for good before the 30-day retention runs out
+ */
+
+import { Stack } from 'expo-router';
+import React from 'react';
+import { Alert, FlatList, LayoutAnimation, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { TRASH_RETENTION_DAYS, useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { useUndoSnackbar } from '@/hooks/useUndoSnackbar';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { ThemedView } from '@/src/components/common/ThemedView';
+import { Snackbar } from '@/src/components/ui/Snackbar';
+import { TrashItem } from '@/src/types';
+import { formatTimeAgo } from '@/src/utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days until an item deleted at `deletedAt` is removed for good (at least 1 while it is still shown)
+ */
+const daysLeft = (deletedAt: Date, now: Date): number =>
+  Math.max(1, Math.ceil((deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS - now.getTime()) / DAY_MS));
+
+/**
+ * Trash Screen Component
+ *
+ * Features:
+ * - Deleted lists with the tasks deleted along with them, and tasks deleted on their own
+ * - Restore puts items back; a task whose list is gone brings its list back too
+ * - Delete forever per item, or Empty Trash for everything
+ *
+ * @returns JSX.Element - The trash screen component
+ */
+export default function TrashScreen() {
+  const { trash, restoreTask, restoreCategoryList, purgeDeletedTask, purgeDeletedList, emptyTrash } = useTaskContext();
+  const undoSnackbar = useUndoSnackbar();
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+
+  const now = new Date();
+
+  /**
+   * Restores an item to the Lists screen, offering to undo
+   *
+   * @param item - List or task to restore
+   */
+  const handleRestore = (item: TrashItem) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    if (item.kind === 'list') {
+      restoreCategoryList(item.list.id);
+    } else {
+      restoreTask(item.task.id);
+    }
+    undoSnackbar.show();
+  };
+
+  /**
+   * Confirms and permanently removes an item from the Trash
+   *
+   * @param item - List or task to remove
+   */
+  const handlePurge = (item: TrashItem) => {
+    const message = item.kind === 'list'
+      ? `"${item.list.category}" and its ${item.tasks.length} ${item.tasks.length === 1 ? 'task' : 'tasks'} will be deleted. This cannot be undone.`
+      : `"${item.task.title}" will be deleted. This cannot be undone.`;
+
+    Alert.alert('Delete Forever', message, [
+      {
+        text: 'Cancel',
+        style: 'cancel',
+      },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+          if (item.kind === 'list') {
+            purgeDeletedList(item.list.id);
+          } else {
+            purgeDeletedTask(item.task.id);
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Confirms and permanently removes everything in the Trash
+   */
+  const handleEmptyTrash = () => {
+    Alert.alert('Empty Trash', `All ${trash.length} items will be deleted. This cannot be undone.`, [
+      {
+        text: 'Cancel',
+        style: 'cancel',
+      },
+      {
+        text: 'Empty',
+        style: 'destructive',
+        onPress: () => {
+          LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+          emptyTrash();
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: TrashItem }) => {
+    const title = item.kind === 'list' ? item.list.category : item.task.title;
+    const origin = item.kind === 'list'
+      ? `List • ${item.tasks.length} ${item.tasks.length === 1 ? 'task' : 'tasks'}`
+      : `From ${item.list.category}`;
+    const remaining = daysLeft(item.deletedAt, now);
+
+    return (
+      <View style={[styles.itemRow, { borderColor }]}>
+        {item.kind === 'list' ? (
+          <View style={[styles.listIcon, { backgroundColor: item.list.color }]}>
+            <IconSymbol name={item.list.icon as any} size={16} color="white" />
+          </View>
+        ) : (
+          <View style={[styles.listDot, { backgroundColor: item.list.color }]} />
+        )}
+
+        <View style={styles.itemContent}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>{title}</ThemedText>
+          <ThemedText style={styles.itemMeta} numberOfLines={1}>{origin}</ThemedText>
+          <ThemedText style={styles.itemMeta}>
+            {formatTimeAgo(item.deletedAt, now)} • {remaining} {remaining === 1 ? 'day' : 'days'} left
+          </ThemedText>
+        </View>
+
+        <TouchableOpacity style={styles.itemAction} onPress={() => handleRestore(item)} activeOpacity={0.7}>
+          <IconSymbol name="arrow.uturn.backward" size={22} color="#007AFF" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.itemAction} onPress={() => handlePurge(item)} activeOpacity={0.7}>
+          <IconSymbol name="trash" size={22} color="#FF3B30" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen
+        options={{
+          headerRight: () => trash.length > 0 ? (
+            <TouchableOpacity onPress={handleEmptyTrash}>
+              <ThemedText style={styles.emptyTrashText}>Empty</ThemedText>
+            </TouchableOpacity>
+          ) : null,
+        }}
+      />
+
+      <FlatList
+        data={trash}
+        renderItem={renderItem}
+        keyExtractor={(item) => (item.kind === 'list' ? `list:${item.list.id}` : `task:${item.task.id}`)}
+        ListHeaderComponent={trash.length > 0 ? (
+          <ThemedText style={styles.helpText}>
+            Items are deleted for good after {TRASH_RETENTION_DAYS} days
+          </ThemedText>
+        ) : null}
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            The Trash is empty. Deleted lists and tasks are kept here for {TRASH_RETENTION_DAYS} days.
+          </ThemedText>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+
+      {/* Snackbar for undoing a restore */}
+      <Snackbar {...undoSnackbar.snackbarProps} />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  helpText: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  listIcon: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  listDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginLeft: 9,
+    marginRight: 21,
+  },
+  itemContent: {
+    flex: 1,
+    gap: 2,
+  },
+  itemMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  itemAction: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  emptyTrashText: {
+    fontSize: 16,
+    color: '#FF3B30',
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -0,0 +1,288 @@
+/**
+ * @fileoverview Bottom action bar shown in multi-select mode
+ * Applies complete, move, priority, reschedule and delete to every selected task at once
+ */
+
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import { LayoutAnimation, Modal, Platform, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ListPicker } from '@/components/ListPicker';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { Priority } from '@/src/types';
+import { formatDate, startOfDay } from '@/src/utils';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  onCancel: () => void; // Leaves selection mode without changing anything
+  onApplied: () => void; // Called after an action, e.g. to offer undo
+}
+
+type ActionPanel = 'move' | 'priority' | 'reschedule';
+
+const PRIORITY_OPTIONS: (Priority | undefined)[] = ['!!!', '!!', '!', undefined];
+
+/**
+ * Returns midnight `days` days from today
+ */
+const daysFromToday = (days: number): Date => {
+  const date = startOfDay(new Date());
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+const RESCHEDULE_OPTIONS = [
+  { label: 'Today', days: 0 },
+  { label: 'Tomorrow', days: 1 },
+  { label: 'Next Week', days: 7 },
+];
+
+/**
+ * BulkActionBar component for acting on the selected tasks
+ *
+ * Features:
+ * - Complete (or mark incomplete when every selected task is already done)
+ * - Move to another list, set priority, reschedule to another day
+ * - Delete
+ * - Each action is a single update that one undo reverts
+ *
+ * @param props - Selected task ids and callbacks
+ * @returns JSX.Element - Action bar with its option sheets
+ */
+export function BulkActionBar({ selectedIds, onCancel, onApplied }: BulkActionBarProps) {
+  const { categoryLists, completeTasks, moveTasks, updateTasks, rescheduleTasks, deleteTasks } = useTaskContext();
+  const [activePanel, setActivePanel] = useState<ActionPanel | null>(null);
+  const [pickedDate, setPickedDate] = useState(() => daysFromToday(1));
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const backgroundColor = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+
+  // Selected tasks that still exist (one may have been deleted since it was selected)
+  const selectedTasks = categoryLists.flatMap(list => list.tasks).filter(task => selectedIds.includes(task.id));
+  const taskIds = selectedTasks.map(task => task.id);
+  const count = taskIds.length;
+  const taskText = `${count} ${count === 1 ? 'task' : 'tasks'}`;
+
+  // Completing toggles back to incomplete only when there is nothing left to complete
+  const allCompleted = count > 0 && selectedTasks.every(task => task.completed);
+
+  /**
+   * Closes any open sheet and reports the finished action
+   */
+  const finish = () => {
+    setActivePanel(null);
+    setShowDatePicker(false);
+    onApplied();
+  };
+
+  const handleComplete = () => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    completeTasks(taskIds, !allCompleted);
+    finish();
+  };
+
+  const handleMove = (listId: string) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    moveTasks(taskIds, listId);
+    finish();
+  };
+
+  const handleSetPriority = (priority: Priority | undefined) => {
+    updateTasks(taskIds, { priority });
+    finish();
+  };
+
+  const handleReschedule = (date: Date) => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    rescheduleTasks(taskIds, date);
+    finish();
+  };
+
+  const handleDelete = () => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    deleteTasks(taskIds);
+    finish();
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setPickedDate(selectedDate);
+    }
+  };
+
+  const renderAction = (icon: Parameters<typeof IconSymbol>[0]['name'], label: string, onPress: () => void, color = '#007AFF') => (
+    <TouchableOpacity style={styles.action} onPress={onPress} activeOpacity={0.7}>
+      <IconSymbol name={icon} size={22} color={color} />
+      <ThemedText style={[styles.actionText, { color }]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderOption = (key: string, label: string, onPress: () => void) => (
+    <TouchableOpacity key={key} style={[styles.option, { borderColor }]} onPress={onPress}>
+      <ThemedText style={styles.optionText}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.bar, { backgroundColor, borderColor }]}>
+      <View style={styles.summaryRow}>
+        <ThemedText type="defaultSemiBold">{count} selected</ThemedText>
+        <TouchableOpacity onPress={onCancel}>
+          <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.actionRow}>
+        {renderAction('checkmark.circle.fill', allCompleted ? 'Incomplete' : 'Complete', handleComplete)}
+        {renderAction('folder.fill', 'Move', () => setActivePanel('move'))}
+        {renderAction('flag.fill', 'Priority', () => setActivePanel('priority'))}
+        {renderAction('calendar', 'Reschedule', () => setActivePanel('reschedule'))}
+        {renderAction('trash', 'Delete', handleDelete, '#FF3B30')}
+      </View>
+
+      {/* Options for the chosen action */}
+      <Modal
+        visible={activePanel !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setActivePanel(null)}
+      >
+        <TouchableOpacity style={styles.sheetOverlay} activeOpacity={1} onPress={() => setActivePanel(null)}>
+          <TouchableOpacity activeOpacity={1} style={[styles.sheet, { backgroundColor }]}>
+            {activePanel === 'move' && (
+              <>
+                <ThemedText type="subtitle" style={styles.sheetTitle}>Move {taskText} to</ThemedText>
+                <ListPicker lists={categoryLists} selectedListId="" onSelect={handleMove} />
+              </>
+            )}
+
+            {activePanel === 'priority' && (
+              <>
+                <ThemedText type="subtitle" style={styles.sheetTitle}>Set priority</ThemedText>
+                <View style={styles.optionGrid}>
+                  {PRIORITY_OPTIONS.map(priority =>
+                    renderOption(priority ?? 'none', priority ?? 'None', () => handleSetPriority(priority))
+                  )}
+                </View>
+              </>
+            )}
+
+            {activePanel === 'reschedule' && (
+              <>
+                <ThemedText type="subtitle" style={styles.sheetTitle}>Reschedule {taskText}</ThemedText>
+                <ThemedText style={styles.sheetHint}>Each task keeps its time of day.</ThemedText>
+                <View style={styles.optionGrid}>
+                  {RESCHEDULE_OPTIONS.map(option =>
+                    renderOption(option.label, option.label, () => handleReschedule(daysFromToday(option.days)))
+                  )}
+                  {renderOption('pick', 'Pick a Date…', () => setShowDatePicker(true))}
+                </View>
+
+                {showDatePicker && (
+                  <DateTimePicker
+                    testID="bulkDateTimePicker"
+                    value={pickedDate}
+                    mode="date"
+                    is24Hour={true}
+                    display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                    onChange={handleDateChange}
+                  />
+                )}
+
+                <TouchableOpacity style={styles.applyButton} onPress={() => handleReschedule(pickedDate)}>
+                  <ThemedText style={styles.applyButtonText}>
+                    Move to {formatDate(pickedDate, { format: 'short' })}
+                  </ThemedText>
+                </TouchableOpacity>
+              </>
+            )}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  action: {
+    alignItems: 'center',
+    paddingVertical: 4,
+    minWidth: 56,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  sheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sheetTitle: {
+    marginBottom: 12,
+  },
+  sheetHint: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginBottom: 12,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  applyButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
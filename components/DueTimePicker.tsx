@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Due time picker used by the task create/edit modals
+ * Switches a task between all-day and a specific time of day
+ */
+
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import { Platform, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { formatTime } from '@/src/utils';
+
+interface DueTimePickerProps {
+  dueDate: Date;
+  hasDueTime: boolean;
+  onChange: (dueDate: Date, hasDueTime: boolean) => void;
+}
+
+/**
+ * Returns the next full hour after now, on the given day
+ */
+const defaultDueTime = (day: Date): Date => {
+  const time = new Date(day);
+  time.setHours(Math.min(new Date().getHours() + 1, 23), 0, 0, 0);
+  return time;
+};
+
+/**
+ * DueTimePicker component for choosing an optional time of day
+ *
+ * Features:
+ * - "All day" by default, toggled to a timed task with a switch
+ * - Native time picker that follows the device's 12/24-hour setting
+ * - Keeps the calendar day of the due date when the time changes
+ *
+ * @param props - Current due date, whether it is timed, and change callback
+ * @returns JSX.Element - Time row with optional picker
+ */
+export function DueTimePicker({ dueDate, hasDueTime, onChange }: DueTimePickerProps) {
+  const [showTimePicker, setShowTimePicker] = useState(false);
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+
+  const toggleTime = (enabled: boolean) => {
+    setShowTimePicker(enabled);
+    onChange(enabled ? defaultDueTime(dueDate) : dueDate, enabled);
+  };
+
+  const onTimeChange = (event: any, selectedTime?: Date) => {
+    setShowTimePicker(Platform.OS === 'ios');
+    if (selectedTime) {
+      const updated = new Date(dueDate);
+      updated.setHours(selectedTime.getHours(), selectedTime.getMinutes(), 0, 0);
+      onChange(updated, true);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.switchRow}>
+        <ThemedText>{hasDueTime ? 'At a specific time' : 'All day'}</ThemedText>
+        <Switch
+          value={hasDueTime}
+          onValueChange={toggleTime}
+          trackColor={{ true: '#007AFF' }}
+        />
+      </View>
+
+      {hasDueTime && (
+        <TouchableOpacity
+          style={[styles.timeButton, { backgroundColor: inputBackground, borderColor }]}
+          onPress={() => setShowTimePicker(true)}
+        >
+          <ThemedText>{formatTime(dueDate)}</ThemedText>
+        </TouchableOpacity>
+      )}
+
+      {hasDueTime && showTimePicker && (
+        <DateTimePicker
+          testID="dueTimePicker"
+          value={dueDate}
+          mode="time"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={onTimeChange}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  switchRow: {
+    marginTop: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  timeButton: {
+    marginTop: 12,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+});
@@ -2,11 +2,18 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import React, { useEffect, useState } from 'react';
 import { Alert, Modal, Platform, SafeAreaView, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 
+import { DueTimePicker } from '@/components/DueTimePicker';
+import { ListPicker } from '@/components/ListPicker';
+import { ReminderPicker } from '@/components/ReminderPicker';
+import { RepeatPicker } from '@/components/RepeatPicker';
+import { TagInput } from '@/components/TagInput';
+import { TaskMetadata } from '@/components/TaskMetadata';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { useTaskContext } from '@/contexts/TaskContext';
 import { useThemeColor } from '@/hooks/useThemeColor';
 import { ThemedText } from '@/src/components/common/ThemedText';
-import { Priority, Task } from '@/src/types';
+import { Priority, RecurrenceRule, ReminderOffset, Task, TaskUpdates } from '@/src/types';
+import { generateId } from '@/src/utils';
 
 interface EditTaskModalProps {
   visible: boolean;
@@ -17,7 +24,7 @@ interface EditTaskModalProps {
 const PRIORITY_OPTIONS: Priority[] = ['!!!', '!!', '!'];
 
 export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
-  const { updateTask, deleteTask } = useTaskContext();
+  const { categoryLists, updateTask, moveTask, deleteTask } = useTaskContext();
   const [showDatePicker, setShowDatePicker] = useState(false);
   
   // Form state
@@ -25,8 +32,13 @@ export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
     title: '',
     description: '',
     dueDate: new Date(),
+    hasDueTime: false,
     priority: undefined as Priority | undefined,
+    recurrence: undefined as RecurrenceRule | undefined,
+    reminders: undefined as ReminderOffset[] | undefined,
+    tags: undefined as string[] | undefined,
     subtasks: [] as string[],
+    listId: '',
   });
 
   // Theme colors
@@ -42,8 +54,13 @@ export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
         title: task.title,
         description: task.description || '',
         dueDate: new Date(task.dueDate),
+        hasDueTime: !!task.hasDueTime,
         priority: task.priority,
+        recurrence: task.recurrence,
+        reminders: task.reminders,
+        tags: task.tags,
         subtasks: task.subtasks?.map(st => st.name) || [],
+        listId: task.listId,
       });
     }
   }, [task]);
@@ -89,22 +106,28 @@ export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
       return;
     }
 
-    const updatedTask: Task = {
-      ...task,
+    const updates: TaskUpdates = {
       title: formData.title.trim(),
       description: formData.description.trim() || undefined,
       dueDate: formData.dueDate,
+      hasDueTime: formData.hasDueTime || undefined,
       priority: formData.priority,
+      recurrence: formData.recurrence,
+      reminders: formData.reminders,
+      tags: formData.tags,
       subtasks: formData.subtasks
         .filter(subtask => subtask.trim())
         .map((subtask, index) => ({
-          id: task.subtasks?.[index]?.id || `${Date.now()}-${index}`,
+          id: task.subtasks?.[index]?.id || generateId(),
           name: subtask.trim(),
           completed: task.subtasks?.[index]?.completed || false,
         })),
     };
 
-    updateTask(updatedTask);
+    if (formData.listId !== task.listId) {
+      moveTask(task.id, formData.listId);
+    }
+    updateTask(task.id, updates);
     onClose();
   };
 
@@ -172,6 +195,16 @@ export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
         </View>
 
         <ScrollView style={styles.content}>
+          {/* List */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>List</ThemedText>
+            <ListPicker
+              lists={categoryLists}
+              selectedListId={formData.listId}
+              onSelect={(listId) => setFormData(prev => ({ ...prev, listId }))}
+            />
+          </View>
+
           {/* Task Title */}
           <View style={styles.section}>
             <ThemedText style={styles.label}>Task Name</ThemedText>
@@ -219,6 +252,12 @@ export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
                 minimumDate={new Date()}
               />
             )}
+
+            <DueTimePicker
+              dueDate={formData.dueDate}
+              hasDueTime={formData.hasDueTime}
+              onChange={(dueDate, hasDueTime) => setFormData(prev => ({ ...prev, dueDate, hasDueTime }))}
+            />
           </View>
 
           {/* Priority */}
@@ -229,6 +268,34 @@ export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
             </View>
           </View>
 
+          {/* Repeat */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Repeat</ThemedText>
+            <RepeatPicker
+              rule={formData.recurrence}
+              dueDate={formData.dueDate}
+              onChange={(recurrence) => setFormData(prev => ({ ...prev, recurrence }))}
+            />
+          </View>
+
+          {/* Reminders */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Reminders</ThemedText>
+            <ReminderPicker
+              reminders={formData.reminders}
+              onChange={(reminders) => setFormData(prev => ({ ...prev, reminders }))}
+            />
+          </View>
+
+          {/* Tags */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Tags</ThemedText>
+            <TagInput
+              tags={formData.tags}
+              onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+            />
+          </View>
+
           {/* Subtasks */}
           <View style={styles.section}>
             <View style={styles.subtaskHeader}>
@@ -258,6 +325,9 @@ export function EditTaskModal({ visible, task, onClose }: EditTaskModalProps) {
             ))}
           </View>
 
+          {/* Timestamps */}
+          {task && <TaskMetadata task={task} />}
+
           {/* Delete Button */}
           <TouchableOpacity
             style={styles.deleteButton}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Text that highlights occurrences of a search query
+ */
+
+import React from 'react';
+import { StyleSheet, Text } from 'react-native';
+
+import { ThemedText, ThemedTextProps } from '@/src/components/common/ThemedText';
+import { getHighlightSegments } from '@/src/utils/search';
+
+interface HighlightedTextProps extends ThemedTextProps {
+  text: string;
+  query?: string; // Search query whose terms are highlighted; plain text when omitted
+}
+
+/**
+ * HighlightedText component rendering `text` with matches of `query` emphasized
+ *
+ * @param props - Text, query and any ThemedText props
+ * @returns JSX.Element - Themed text with highlighted segments
+ *
+ * @example
+ * <HighlightedText type="defaultSemiBold" text={task.title} query={searchQuery} />
+ */
+export function HighlightedText({ text, query, ...textProps }: HighlightedTextProps) {
+  if (!query) {
+    return <ThemedText {...textProps}>{text}</ThemedText>;
+  }
+
+  return (
+    <ThemedText {...textProps}>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.highlighted ? (
+          <Text key={index} style={styles.highlight}>{segment.text}</Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </ThemedText>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: 'rgba(255, 204, 0, 0.4)',
+    fontWeight: '700',
+  },
+});
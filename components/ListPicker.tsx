@@ -0,0 +1,93 @@
+/**
+ * @fileoverview List picker used by the task modals
+ * Horizontal row of chips, one per category list, showing the list's color
+ */
+
+import React from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { CategoryList } from '@/src/types';
+
+interface ListPickerProps {
+  lists: CategoryList[];
+  selectedListId: string; // Empty string selects the "all" option
+  onSelect: (listId: string) => void;
+  allOptionLabel?: string; // Label of a leading chip that selects no particular list
+}
+
+/**
+ * ListPicker component for choosing which list a task belongs to
+ *
+ * @param props - Available lists, selected list id and selection callback
+ * @returns JSX.Element - Scrollable row of list chips
+ */
+export function ListPicker({ lists, selectedListId, onSelect, allOptionLabel }: ListPickerProps) {
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {allOptionLabel && (
+        <TouchableOpacity
+          style={[styles.chip, { borderColor }, selectedListId === '' && styles.selectedAllChip]}
+          onPress={() => onSelect('')}
+        >
+          <ThemedText style={[styles.chipText, selectedListId === '' && styles.selectedChipText]}>
+            {allOptionLabel}
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+      {lists.map(list => {
+        const selected = list.id === selectedListId;
+        return (
+          <TouchableOpacity
+            key={list.id}
+            style={[
+              styles.chip,
+              { borderColor },
+              selected && { backgroundColor: list.color, borderColor: list.color }
+            ]}
+            onPress={() => onSelect(list.id)}
+          >
+            <View style={[styles.colorDot, { backgroundColor: selected ? '#FFFFFF' : list.color }]} />
+            <ThemedText style={[styles.chipText, selected && styles.selectedChipText]}>
+              {list.category}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  selectedAllChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview In-app reminder banner
+ * Shows reminders fired by the in-app delivery backend, used where local
+ * notifications are unavailable (web)
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { InAppReminderDelivery, inAppReminderDelivery } from '@/src/reminders';
+import { ScheduledReminder } from '@/src/types';
+
+interface ReminderBannerProps {
+  delivery?: InAppReminderDelivery; // Backend to listen to (defaults to the shared in-app backend)
+  duration?: number; // How long each reminder stays on screen, in milliseconds
+}
+
+/**
+ * ReminderBanner component that displays fired reminders at the top of the screen
+ *
+ * Features:
+ * - Queues reminders that fire close together and shows them one at a time
+ * - Fade in/out animation
+ * - Auto-dismiss after `duration`, or tap to dismiss
+ *
+ * @param props - Delivery backend and display duration
+ * @returns JSX.Element | null - Banner, or nothing when no reminder is showing
+ *
+ * @example
+ * {Platform.OS === 'web' && <ReminderBanner />}
+ */
+export function ReminderBanner({ delivery = inAppReminderDelivery, duration = 8000 }: ReminderBannerProps) {
+  const [queue, setQueue] = useState<ScheduledReminder[]>([]);
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const insets = useSafeAreaInsets();
+
+  // Theme-aware colors
+  const backgroundColor = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+
+  const current = queue[0];
+
+  /**
+   * Collect reminders as they fire
+   */
+  useEffect(() => {
+    return delivery.subscribe((reminder) => {
+      setQueue(prev => [...prev, reminder]);
+    });
+  }, [delivery]);
+
+  /**
+   * Animate the current reminder in and schedule its dismissal
+   */
+  useEffect(() => {
+    if (!current) return;
+
+    Animated.timing(fadeAnim, {
+      toValue: 1,
+      duration: 300,
+      useNativeDriver: true,
+    }).start();
+
+    const timer = setTimeout(() => dismiss(), duration);
+    return () => clearTimeout(timer);
+    // Re-run only when a different reminder reaches the front of the queue
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [current, duration]);
+
+  /**
+   * Fades out the current reminder and moves on to the next
+   */
+  const dismiss = () => {
+    Animated.timing(fadeAnim, {
+      toValue: 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(() => {
+      setQueue(prev => prev.slice(1));
+    });
+  };
+
+  if (!current) {
+    return null;
+  }
+
+  return (
+    <Animated.View
+      style={[styles.container, { top: insets.top + 8, opacity: fadeAnim }]}
+      pointerEvents="box-none"
+    >
+      <TouchableOpacity
+        style={[styles.banner, { backgroundColor, borderColor }]}
+        onPress={dismiss}
+        activeOpacity={0.8}
+      >
+        <IconSymbol name="clock.fill" size={20} color="#007AFF" />
+        <View style={styles.content}>
+          <ThemedText type="defaultSemiBold" numberOfLines={1}>
+            {current.title}
+          </ThemedText>
+          <ThemedText style={styles.body} numberOfLines={1}>
+            {current.body}
+          </ThemedText>
+        </View>
+        {queue.length > 1 && (
+          <ThemedText style={styles.count}>+{queue.length - 1}</ThemedText>
+        )}
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    zIndex: 1000,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  body: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  count: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Reminder picker used by the task create/edit modals
+ * Lets the user pick preset or custom reminder offsets for a task
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { describeReminderOffset, getReminderOffsetKey, REMINDER_PRESETS } from '@/src/reminders/scheduler';
+import { ReminderOffset } from '@/src/types';
+
+interface ReminderPickerProps {
+  reminders?: ReminderOffset[];
+  onChange: (reminders: ReminderOffset[] | undefined) => void;
+}
+
+type CustomUnit = 'minutes' | 'hours' | 'days';
+
+const UNIT_MINUTES: Record<CustomUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 1440,
+};
+
+const PRESET_KEYS = new Set(REMINDER_PRESETS.map(getReminderOffsetKey));
+
+/**
+ * ReminderPicker component for editing a task's reminders
+ *
+ * Features:
+ * - One-tap presets: at due time, 15 minutes before, day before at 9 AM
+ * - Custom "N minutes/hours/days before" reminders
+ * - Removable chips for custom reminders
+ *
+ * @param props - Current reminders and change callback
+ * @returns JSX.Element - Reminder editor
+ */
+export function ReminderPicker({ reminders = [], onChange }: ReminderPickerProps) {
+  const [showCustom, setShowCustom] = useState(false);
+  const [customAmount, setCustomAmount] = useState(30);
+  const [customUnit, setCustomUnit] = useState<CustomUnit>('minutes');
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+
+  const selectedKeys = new Set(reminders.map(getReminderOffsetKey));
+  const customReminders = reminders.filter(offset => !PRESET_KEYS.has(getReminderOffsetKey(offset)));
+
+  const update = (next: ReminderOffset[]) => {
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  const toggleReminder = (offset: ReminderOffset) => {
+    const key = getReminderOffsetKey(offset);
+    update(selectedKeys.has(key)
+      ? reminders.filter(existing => getReminderOffsetKey(existing) !== key)
+      : [...reminders, offset]);
+  };
+
+  const addCustomReminder = () => {
+    const offset: ReminderOffset = { type: 'beforeDue', minutes: customAmount * UNIT_MINUTES[customUnit] };
+    if (!selectedKeys.has(getReminderOffsetKey(offset))) {
+      update([...reminders, offset]);
+    }
+    setShowCustom(false);
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { borderColor }, selected && styles.selectedChip]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.selectedChipText]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View style={styles.chipGrid}>
+        {REMINDER_PRESETS.map(offset => {
+          const key = getReminderOffsetKey(offset);
+          return renderChip(key, describeReminderOffset(offset), selectedKeys.has(key), () => toggleReminder(offset));
+        })}
+        {renderChip('custom', 'Custom…', showCustom, () => setShowCustom(!showCustom))}
+      </View>
+
+      {/* Custom reminders already added */}
+      {customReminders.length > 0 && (
+        <View style={[styles.chipGrid, styles.customList]}>
+          {customReminders.map(offset => (
+            <TouchableOpacity
+              key={getReminderOffsetKey(offset)}
+              style={[styles.chip, styles.selectedChip, styles.removableChip]}
+              onPress={() => toggleReminder(offset)}
+            >
+              <ThemedText style={[styles.chipText, styles.selectedChipText]}>
+                {describeReminderOffset(offset)}
+              </ThemedText>
+              <IconSymbol name="xmark" size={12} color="#FFFFFF" />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {showCustom && (
+        <View style={[styles.customCard, { backgroundColor: inputBackground, borderColor }]}>
+          <View style={styles.stepperRow}>
+            <TouchableOpacity
+              style={[styles.stepperButton, { borderColor }]}
+              onPress={() => setCustomAmount(Math.max(1, customAmount - 1))}
+            >
+              <ThemedText style={styles.stepperButtonText}>−</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.stepperValue}>{customAmount}</ThemedText>
+            <TouchableOpacity
+              style={[styles.stepperButton, { borderColor }]}
+              onPress={() => setCustomAmount(customAmount + 1)}
+            >
+              <ThemedText style={styles.stepperButtonText}>+</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.stepperSuffix}>before</ThemedText>
+          </View>
+
+          <View style={styles.chipGrid}>
+            {(Object.keys(UNIT_MINUTES) as CustomUnit[]).map(unit =>
+              renderChip(unit, unit, customUnit === unit, () => setCustomUnit(unit))
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.addButton} onPress={addCustomReminder}>
+            <ThemedText style={styles.addButtonText}>Add Reminder</ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  removableChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  customList: {
+    marginTop: 8,
+  },
+  customCard: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  stepperValue: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepperSuffix: {
+    marginLeft: 8,
+    fontSize: 16,
+  },
+  addButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
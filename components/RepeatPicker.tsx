@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Repeat rule picker used by the task create/edit modals
+ * Lets the user choose how often a task repeats and when the series ends
+ */
+
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import { Platform, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { RecurrenceFrequency, RecurrenceRule } from '@/src/types';
+import { formatDate } from '@/src/utils';
+import {
+  createRecurrenceRule,
+  describeRecurrence,
+  getWeekOfMonth,
+  WEEKDAY_LABELS
+} from '@/src/utils/recurrence';
+
+interface RepeatPickerProps {
+  rule?: RecurrenceRule;
+  dueDate: Date; // Anchors weekday/day-of-month defaults for new rules
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | 'never'; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const INTERVAL_UNITS: Partial<Record<RecurrenceFrequency, string>> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const ORDINAL_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' };
+
+type EndMode = 'never' | 'date' | 'count';
+
+/**
+ * RepeatPicker component for editing a task's recurrence rule
+ *
+ * Features:
+ * - Daily, weekday, weekly, monthly and yearly frequencies
+ * - "Every N" interval stepper
+ * - Weekday selection for weekly rules
+ * - Monthly by date or by nth weekday
+ * - Optional end date or occurrence count
+ *
+ * @param props - Current rule, task due date and change callback
+ * @returns JSX.Element - Repeat rule editor
+ */
+export function RepeatPicker({ rule, dueDate, onChange }: RepeatPickerProps) {
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+
+  const endMode: EndMode = rule?.count ? 'count' : rule?.endDate ? 'date' : 'never';
+  const interval = rule?.interval ?? 1;
+  const unit = rule ? INTERVAL_UNITS[rule.frequency] : undefined;
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) onChange({ ...rule, ...changes });
+  };
+
+  const selectFrequency = (value: RecurrenceFrequency | 'never') => {
+    if (value === 'never') {
+      onChange(undefined);
+    } else if (value !== rule?.frequency) {
+      onChange({ ...createRecurrenceRule(value, dueDate), endDate: rule?.endDate, count: rule?.count });
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    const current = rule?.weekdays ?? [];
+    const weekdays = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+    // A weekly rule always needs at least one day
+    if (weekdays.length > 0) update({ weekdays });
+  };
+
+  const selectEndMode = (mode: EndMode) => {
+    if (mode === 'never') update({ endDate: undefined, count: undefined });
+    if (mode === 'count') update({ endDate: undefined, count: rule?.count ?? 5 });
+    if (mode === 'date') {
+      update({ count: undefined, endDate: rule?.endDate ?? dueDate });
+      setShowEndDatePicker(true);
+    }
+  };
+
+  const onEndDateChange = (event: any, selectedDate?: Date) => {
+    setShowEndDatePicker(Platform.OS === 'ios');
+    if (selectedDate) update({ endDate: selectedDate });
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { borderColor }, selected && styles.selectedChip]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.selectedChipText]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (value: number, onStep: (value: number) => void, suffix: string) => (
+    <View style={styles.stepperRow}>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor }]}
+        onPress={() => onStep(Math.max(1, value - 1))}
+      >
+        <ThemedText style={styles.stepperButtonText}>−</ThemedText>
+      </TouchableOpacity>
+      <ThemedText style={styles.stepperValue}>{value}</ThemedText>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor }]}
+        onPress={() => onStep(value + 1)}
+      >
+        <ThemedText style={styles.stepperButtonText}>+</ThemedText>
+      </TouchableOpacity>
+      <ThemedText style={styles.stepperSuffix}>{suffix}</ThemedText>
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.chipGrid}>
+        {FREQUENCY_OPTIONS.map(option =>
+          renderChip(
+            option.value,
+            option.label,
+            (rule?.frequency ?? 'never') === option.value,
+            () => selectFrequency(option.value)
+          )
+        )}
+      </View>
+
+      {rule && (
+        <View style={[styles.optionsCard, { backgroundColor: inputBackground, borderColor }]}>
+          {/* Interval */}
+          {unit && renderStepper(
+            interval,
+            (value) => update({ interval: value }),
+            interval === 1 ? unit : `${unit}s`
+          )}
+
+          {/* Weekly: days of the week */}
+          {rule.frequency === 'weekly' && (
+            <View style={styles.weekdayRow}>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[
+                    styles.weekdayOption,
+                    { borderColor },
+                    rule.weekdays?.includes(day) && styles.selectedChip
+                  ]}
+                  onPress={() => toggleWeekday(day)}
+                >
+                  <ThemedText
+                    style={[styles.weekdayText, rule.weekdays?.includes(day) && styles.selectedChipText]}
+                  >
+                    {label.charAt(0)}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {/* Monthly: by date or by nth weekday */}
+          {rule.frequency === 'monthly' && (
+            <View style={styles.chipGrid}>
+              {renderChip(
+                'dayOfMonth',
+                `On day ${dueDate.getDate()}`,
+                rule.monthlyMode !== 'nthWeekday',
+                () => update({ monthlyMode: 'dayOfMonth', monthDay: dueDate.getDate(), weekdays: undefined, weekOfMonth: undefined })
+              )}
+              {renderChip(
+                'nthWeekday',
+                `On the ${ORDINAL_LABELS[getWeekOfMonth(dueDate)]} ${WEEKDAY_LABELS[dueDate.getDay()]}`,
+                rule.monthlyMode === 'nthWeekday',
+                () => update({
+                  monthlyMode: 'nthWeekday',
+                  monthDay: undefined,
+                  weekdays: [dueDate.getDay()],
+                  weekOfMonth: getWeekOfMonth(dueDate),
+                })
+              )}
+            </View>
+          )}
+
+          {/* End of series */}
+          <ThemedText style={styles.subLabel}>Ends</ThemedText>
+          <View style={styles.chipGrid}>
+            {renderChip('never', 'Never', endMode === 'never', () => selectEndMode('never'))}
+            {renderChip('date', 'On date', endMode === 'date', () => selectEndMode('date'))}
+            {renderChip('count', 'After', endMode === 'count', () => selectEndMode('count'))}
+          </View>
+
+          {endMode === 'date' && rule.endDate && (
+            <TouchableOpacity
+              style={[styles.dateButton, { borderColor }]}
+              onPress={() => setShowEndDatePicker(true)}
+            >
+              <ThemedText>{formatDate(rule.endDate, { format: 'short' })}</ThemedText>
+            </TouchableOpacity>
+          )}
+          {endMode === 'date' && showEndDatePicker && (
+            <DateTimePicker
+              testID="repeatEndDatePicker"
+              value={rule.endDate ?? dueDate}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={onEndDateChange}
+              minimumDate={dueDate}
+            />
+          )}
+
+          {endMode === 'count' && renderStepper(
+            rule.count ?? 1,
+            (value) => update({ count: value }),
+            rule.count === 1 ? 'time' : 'times'
+          )}
+
+          <ThemedText style={styles.summary}>{describeRecurrence(rule)}</ThemedText>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  optionsCard: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  stepperValue: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepperSuffix: {
+    marginLeft: 8,
+    fontSize: 16,
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekdayOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdayText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  subLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  dateButton: {
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  summary: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+});
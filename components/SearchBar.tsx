@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Search input with a leading icon and a clear button
+ */
+
+import React from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useThemeColor } from '@/hooks/useThemeColor';
+
+interface SearchBarProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  onClear: () => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+/**
+ * SearchBar component used by the Search and Lists screens
+ *
+ * @param props - Input value, change/clear callbacks and input options
+ * @returns JSX.Element - Rounded search field
+ */
+export function SearchBar({ value, onChangeText, onClear, placeholder = 'Search tasks', autoFocus = false }: SearchBarProps) {
+  // Theme-aware colors
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+
+  return (
+    <View style={[styles.container, { backgroundColor: inputBackground }]}>
+      <IconSymbol name="magnifyingglass" size={18} color="#8E8E93" />
+      <TextInput
+        style={[styles.input, { color: textColor }]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor="#8E8E93"
+        autoFocus={autoFocus}
+        autoCorrect={false}
+        autoCapitalize="none"
+        returnKeyType="search"
+        clearButtonMode="never"
+      />
+      {value.length > 0 && (
+        <TouchableOpacity onPress={onClear} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <IconSymbol name="xmark.circle.fill" size={18} color="#8E8E93" />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 10,
+  },
+});
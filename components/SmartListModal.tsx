@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Modal for creating and editing smart lists
+ * Builds a saved task filter from list, priority, due range, tag, completion and text criteria
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, SafeAreaView, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { CompletionFilter, DueRange, Priority, SmartList, TaskFilter } from '@/src/types';
+import { generateId } from '@/src/utils';
+import { DUE_RANGE_LABELS, filterTasks } from '@/src/utils/taskFilter';
+
+interface SmartListModalProps {
+  visible: boolean;
+  smartList: SmartList | null; // Smart list to edit, or null to create a new one
+  colorOptions: string[];
+  onClose: () => void;
+}
+
+const PRIORITY_OPTIONS: Priority[] = ['!!!', '!!', '!'];
+
+const COMPLETION_OPTIONS: { value: CompletionFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'incomplete', label: 'Incomplete' },
+  { value: 'completed', label: 'Completed' },
+];
+
+/**
+ * Toggles a value in an optional array, returning undefined once it is empty
+ */
+const toggleValue = <T,>(values: T[] | undefined, value: T): T[] | undefined => {
+  const next = values?.includes(value) ? values.filter(v => v !== value) : [...(values ?? []), value];
+  return next.length > 0 ? next : undefined;
+};
+
+/**
+ * SmartListModal component for defining a smart list's name, color and filter
+ *
+ * Features:
+ * - Lists, priorities, due range, tags, completion and text criteria
+ * - Live count of the tasks the filter currently matches
+ *
+ * @param props - Visibility, smart list being edited, color choices and close callback
+ * @returns JSX.Element - Full-screen modal
+ */
+export function SmartListModal({ visible, smartList, colorOptions, onClose }: SmartListModalProps) {
+  const { categoryLists, addSmartList, updateSmartList, getTags } = useTaskContext();
+
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(colorOptions[0]);
+  const [filter, setFilter] = useState<TaskFilter>({});
+
+  // Theme colors
+  const modalBackground = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const textColor = useThemeColor({ light: '#000000', dark: '#FFFFFF' }, 'text');
+
+  // Initialize form whenever the modal opens
+  useEffect(() => {
+    if (visible) {
+      setName(smartList?.name ?? '');
+      setColor(smartList?.color ?? colorOptions[0]);
+      setFilter(smartList?.filter ?? { completion: 'incomplete' });
+    }
+    // colorOptions is a constant list
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, smartList]);
+
+  const tags = getTags();
+  const matchCount = filterTasks(categoryLists.flatMap(list => list.tasks), filter).length;
+
+  const updateFilter = (updates: Partial<TaskFilter>) => {
+    setFilter(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name for the smart list');
+      return;
+    }
+
+    const text = filter.text?.trim();
+    const savedFilter: TaskFilter = { ...filter, text: text || undefined };
+
+    if (smartList) {
+      updateSmartList(smartList.id, { name: name.trim(), color, filter: savedFilter });
+    } else {
+      addSmartList({ id: generateId(), name: name.trim(), color, filter: savedFilter });
+    }
+    onClose();
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { borderColor }, selected && styles.selectedChip]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.selectedChipText]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: modalBackground }]}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+          </TouchableOpacity>
+          <ThemedText type="subtitle">{smartList ? 'Edit Smart List' : 'New Smart List'}</ThemedText>
+          <TouchableOpacity onPress={handleSave}>
+            <ThemedText style={styles.saveText}>Save</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          {/* Name */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Name</ThemedText>
+            <TextInput
+              style={[styles.textInput, { backgroundColor: inputBackground, borderColor, color: textColor }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. High priority this week"
+              placeholderTextColor={borderColor}
+            />
+          </View>
+
+          {/* Color */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Color</ThemedText>
+            <View style={styles.colorGrid}>
+              {colorOptions.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.colorOption, { backgroundColor: option }, color === option && styles.selectedColorOption]}
+                  onPress={() => setColor(option)}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Lists */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Lists</ThemedText>
+            <View style={styles.chipGrid}>
+              {renderChip('any', 'Any list', !filter.listIds, () => updateFilter({ listIds: undefined }))}
+              {categoryLists.map(list =>
+                renderChip(list.id, list.category, !!filter.listIds?.includes(list.id), () =>
+                  updateFilter({ listIds: toggleValue(filter.listIds, list.id) })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Priority */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Priority</ThemedText>
+            <View style={styles.chipGrid}>
+              {renderChip('any', 'Any', !filter.priorities, () => updateFilter({ priorities: undefined }))}
+              {PRIORITY_OPTIONS.map(priority =>
+                renderChip(priority, priority, !!filter.priorities?.includes(priority), () =>
+                  updateFilter({ priorities: toggleValue(filter.priorities, priority) })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Due */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Due</ThemedText>
+            <View style={styles.chipGrid}>
+              {renderChip('any', 'Any time', !filter.dueRange, () => updateFilter({ dueRange: undefined }))}
+              {(Object.keys(DUE_RANGE_LABELS) as DueRange[]).map(range =>
+                renderChip(range, DUE_RANGE_LABELS[range], filter.dueRange === range, () =>
+                  updateFilter({ dueRange: range })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Tags */}
+          {tags.length > 0 && (
+            <View style={styles.section}>
+              <ThemedText style={styles.label}>Tags</ThemedText>
+              <View style={styles.chipGrid}>
+                {renderChip('any', 'Any tag', !filter.tags, () => updateFilter({ tags: undefined }))}
+                {tags.map(({ tag }) =>
+                  renderChip(tag, `#${tag}`, !!filter.tags?.includes(tag), () =>
+                    updateFilter({ tags: toggleValue(filter.tags, tag) })
+                  )
+                )}
+              </View>
+            </View>
+          )}
+
+          {/* Status */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Status</ThemedText>
+            <View style={styles.chipGrid}>
+              {COMPLETION_OPTIONS.map(option =>
+                renderChip(option.value, option.label, (filter.completion ?? 'all') === option.value, () =>
+                  updateFilter({ completion: option.value === 'all' ? undefined : option.value })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Text */}
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Contains Text</ThemedText>
+            <TextInput
+              style={[styles.textInput, { backgroundColor: inputBackground, borderColor, color: textColor }]}
+              value={filter.text ?? ''}
+              onChangeText={(text) => updateFilter({ text })}
+              placeholder="Match title, description or subtasks"
+              placeholderTextColor={borderColor}
+              autoCapitalize="none"
+            />
+          </View>
+
+          <ThemedText style={styles.matchCount}>
+            Currently matches {matchCount} {matchCount === 1 ? 'task' : 'tasks'}
+          </ThemedText>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E7',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  textInput: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+  colorGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  colorOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
+  selectedColorOption: {
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 3,
+    elevation: 4,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  matchCount: {
+    fontSize: 14,
+    opacity: 0.6,
+    textAlign: 'center',
+    marginBottom: 40,
+  },
+});
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Bottom sheet for choosing how tasks are sorted
+ * Used per list on the Lists screen and for the Home screen's tasks
+ */
+
+import React from 'react';
+import { Modal, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { TaskSort, TaskSortKey } from '@/src/types';
+import { TASK_SORT_LABELS } from '@/src/utils/taskSort';
+
+interface SortMenuProps {
+  visible: boolean;
+  title: string; // Sheet heading, e.g. the list name
+  sort: TaskSort;
+  keys?: TaskSortKey[]; // Sort keys to offer (defaults to all)
+  onChange: (sort: TaskSort) => void; // Called on every change; the sheet stays open
+  onClose: () => void;
+}
+
+const ALL_SORT_KEYS = Object.keys(TASK_SORT_LABELS) as TaskSortKey[];
+
+/**
+ * SortMenu component for picking a sort key and whether completed tasks go last
+ *
+ * @param props - Current sort and callbacks
+ * @returns JSX.Element - Modal sheet with the sort options
+ */
+export function SortMenu({ visible, title, sort, keys = ALL_SORT_KEYS, onChange, onClose }: SortMenuProps) {
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const backgroundColor = useThemeColor({ light: '#FFFFFF', dark: '#1C1C1E' }, 'background');
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity style={styles.sheetOverlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} style={[styles.sheet, { backgroundColor }]}>
+          <View style={styles.sheetHeader}>
+            <ThemedText type="subtitle" numberOfLines={1} style={styles.sheetTitle}>Sort {title}</ThemedText>
+            <TouchableOpacity onPress={onClose}>
+              <ThemedText style={styles.doneText}>Done</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          {keys.map(key => (
+            <TouchableOpacity
+              key={key}
+              style={[styles.optionRow, { borderColor }]}
+              onPress={() => onChange({ ...sort, key })}
+            >
+              <ThemedText style={sort.key === key && styles.selectedText}>{TASK_SORT_LABELS[key]}</ThemedText>
+              {sort.key === key && <IconSymbol name="checkmark" size={18} color="#007AFF" />}
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.switchRow}>
+            <ThemedText>Completed at bottom</ThemedText>
+            <Switch
+              value={sort.completedLast}
+              onValueChange={completedLast => onChange({ ...sort, completedLast })}
+              trackColor={{ true: '#007AFF' }}
+            />
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sheetTitle: {
+    flex: 1,
+    marginRight: 12,
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  selectedText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+});
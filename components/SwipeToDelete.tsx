@@ -21,11 +21,15 @@ export function SwipeToDelete({ children, onDelete, disabled = false }: SwipeToD
   // Theme-aware colors
   const deleteColor = useThemeColor({ light: '#FF3B30', dark: '#FF453A' }, 'text');
 
+  // The responder is created once, so it reads the latest value through a ref
+  const disabledRef = useRef(disabled);
+  disabledRef.current = disabled;
+
   const panResponder = useRef(
     PanResponder.create({
-      onStartShouldSetPanResponder: () => !disabled,
+      onStartShouldSetPanResponder: () => !disabledRef.current,
       onMoveShouldSetPanResponder: (_, gestureState) => {
-        if (disabled) return false;
+        if (disabledRef.current) return false;
         // Only respond to horizontal swipes that are clearly leftward
         const isHorizontalSwipe = Math.abs(gestureState.dx) > Math.abs(gestureState.dy * 2);
         const isLeftSwipe = gestureState.dx < -10;
@@ -33,12 +37,12 @@ export function SwipeToDelete({ children, onDelete, disabled = false }: SwipeToD
       },
       onPanResponderGrant: () => {
         // Haptic feedback when starting gesture
-        if (!disabled) {
+        if (!disabledRef.current) {
           // Could add haptic feedback here if needed
         }
       },
       onPanResponderMove: (_, gestureState) => {
-        if (disabled) return;
+        if (disabledRef.current) return;
 
         // Only allow leftward movement
         const newTranslateX = Math.min(0, gestureState.dx);
@@ -53,7 +57,7 @@ export function SwipeToDelete({ children, onDelete, disabled = false }: SwipeToD
         deleteIconScale.setValue(iconScale);
       },
       onPanResponderRelease: (_, gestureState) => {
-        if (disabled) return;
+        if (disabledRef.current) return;
 
         const finalTranslateX = gestureState.dx;
         
@@ -96,7 +100,7 @@ export function SwipeToDelete({ children, onDelete, disabled = false }: SwipeToD
         }
       },
       onPanResponderTerminate: () => {
-        if (disabled) return;
+        if (disabledRef.current) return;
         
         // Reset to original position if gesture is terminated
         Animated.parallel([
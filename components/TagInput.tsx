@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Tag editor used by the task create/edit modals
+ * Shows the task's tags as removable chips with an input that autocompletes existing tags
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { addTag, suggestTags } from '@/src/utils/tags';
+
+interface TagInputProps {
+  tags?: string[];
+  onChange: (tags: string[] | undefined) => void;
+}
+
+/**
+ * TagInput component for editing a task's tags
+ *
+ * Features:
+ * - Type a tag and press return (or type a comma) to add it
+ * - Suggestions from tags already used on other tasks
+ * - Tap a chip to remove the tag
+ *
+ * @param props - Current tags and change callback
+ * @returns JSX.Element - Tag editor
+ */
+export function TagInput({ tags = [], onChange }: TagInputProps) {
+  const { getTags } = useTaskContext();
+  const [input, setInput] = useState('');
+
+  // Theme-aware colors
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+  const inputBackground = useThemeColor({ light: '#F2F2F7', dark: '#2C2C2E' }, 'background');
+  const textColor = useThemeColor({}, 'text');
+
+  const suggestions = suggestTags(getTags(), input, tags);
+
+  const commit = (text: string) => {
+    const next = addTag(tags, text);
+    if (next !== tags) onChange(next);
+    setInput('');
+  };
+
+  const handleChangeText = (text: string) => {
+    // A comma finishes the current tag
+    if (text.endsWith(',')) {
+      commit(text.slice(0, -1));
+    } else {
+      setInput(text);
+    }
+  };
+
+  const removeTag = (tag: string) => {
+    const next = tags.filter(existing => existing !== tag);
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  return (
+    <View>
+      {tags.length > 0 && (
+        <View style={[styles.chipGrid, styles.currentTags]}>
+          {tags.map(tag => (
+            <TouchableOpacity key={tag} style={[styles.chip, styles.selectedChip]} onPress={() => removeTag(tag)}>
+              <ThemedText style={[styles.chipText, styles.selectedChipText]}>#{tag}</ThemedText>
+              <IconSymbol name="xmark" size={12} color="#FFFFFF" />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        style={[styles.input, { backgroundColor: inputBackground, borderColor, color: textColor }]}
+        value={input}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => commit(input)}
+        placeholder="Add a tag"
+        placeholderTextColor={borderColor}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        blurOnSubmit={false}
+      />
+
+      {suggestions.length > 0 && (
+        <View style={[styles.chipGrid, styles.suggestions]}>
+          {suggestions.map(tag => (
+            <TouchableOpacity key={tag} style={[styles.chip, { borderColor }]} onPress={() => commit(tag)}>
+              <ThemedText style={styles.chipText}>#{tag}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  currentTags: {
+    marginBottom: 8,
+  },
+  suggestions: {
+    marginTop: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  input: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+});
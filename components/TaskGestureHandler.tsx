@@ -5,12 +5,15 @@
  */
 
 import React from 'react';
-import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { GestureResponderEvent, StyleSheet, TouchableOpacity, View } from 'react-native';
 
+import { HighlightedText } from '@/components/HighlightedText';
 import { SwipeToDelete } from '@/components/SwipeToDelete';
+import { IconSymbol } from '@/components/ui/IconSymbol';
 import { useThemeColor } from '@/hooks/useThemeColor';
 import { ThemedText } from '@/src/components/common/ThemedText';
 import { Task } from '@/src/types';
+import { formatRelativeDueDate, isTaskOverdue, isToday } from '@/src/utils';
 
 interface TaskGestureHandlerProps {
   task: Task;
@@ -19,6 +22,14 @@ interface TaskGestureHandlerProps {
   onToggleCompletion: (taskId: string) => void;
   onDelete: (taskId: string, taskTitle: string) => void;
   showCategoryName?: boolean; // Optional prop to control category name visibility
+  categoryName?: string; // Name of the task's list, shown when showCategoryName is true
+  onLongPress?: (task: Task, event: GestureResponderEvent) => void; // Optional long press on task content (e.g. to start dragging)
+  isDragging?: boolean; // Dims the card while it is being dragged elsewhere
+  highlightQuery?: string; // Search query to highlight in the title, description and subtasks
+  selectionMode?: boolean; // In multi-select mode, taps select the task instead of editing or completing it
+  isSelected?: boolean; // Whether the task is part of the current selection
+  onToggleSelection?: (task: Task) => void; // Called when the task is tapped in selection mode
+  onDragHandlePressIn?: (task: Task, event: GestureResponderEvent) => void; // Shows a drag handle that starts a reorder drag on touch
 }
 
 /**
@@ -28,6 +39,9 @@ interface TaskGestureHandlerProps {
  * - Tap on task content to edit
  * - Tap on checkbox to toggle completion
  * - Swipe left to delete
+ * - Optional long press on task content
+ * - Optional drag handle for reordering
+ * - Selection mode: taps select the task and swiping is disabled
  * - Prevents accidental completion toggles
  * 
  * @param props - Task gesture handler configuration
@@ -39,24 +53,54 @@ export function TaskGestureHandler({
   onEdit,
   onToggleCompletion,
   onDelete,
-  showCategoryName = false // Default to false (don't show category name)
+  showCategoryName = false, // Default to false (don't show category name)
+  categoryName,
+  onLongPress,
+  isDragging = false,
+  highlightQuery,
+  selectionMode = false,
+  isSelected = false,
+  onToggleSelection,
+  onDragHandlePressIn
 }: TaskGestureHandlerProps) {
   // Theme-aware colors
   const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
   const completedTextColor = useThemeColor({ light: '#8E8E93', dark: '#8E8E93' }, 'text');
 
   /**
-   * Handles task content tap to open edit modal
+   * Handles task content tap to open edit modal (or select the task in selection mode)
    */
   const handleTaskEdit = () => {
-    onEdit(task);
+    if (selectionMode) {
+      onToggleSelection?.(task);
+    } else {
+      onEdit(task);
+    }
+  };
+
+  /**
+   * Handles long press on task content
+   */
+  const handleLongPress = (event: GestureResponderEvent) => {
+    onLongPress?.(task, event);
+  };
+
+  /**
+   * Handles touch down on the drag handle
+   */
+  const handleDragHandlePressIn = (event: GestureResponderEvent) => {
+    onDragHandlePressIn?.(task, event);
   };
 
   /**
    * Handles checkbox tap to toggle completion
    */
   const handleToggleCompletion = () => {
-    onToggleCompletion(task.id);
+    if (selectionMode) {
+      onToggleSelection?.(task);
+    } else {
+      onToggleCompletion(task.id);
+    }
   };
 
   /**
@@ -69,12 +113,14 @@ export function TaskGestureHandler({
   return (
     <SwipeToDelete
       onDelete={handleDelete}
-      disabled={task.completed} // Disable swipe for completed tasks
+      disabled={task.completed || selectionMode} // Disable swipe for completed tasks and while selecting
     >
       <View style={[
         styles.taskCard,
         { borderColor },
-        task.completed && styles.completedTask
+        task.completed && styles.completedTask,
+        isDragging && styles.draggingTask,
+        isSelected && styles.selectedTask
       ]}>
         <View style={styles.taskHeader}>
           {/* Category color indicator */}
@@ -84,19 +130,38 @@ export function TaskGestureHandler({
           <TouchableOpacity
             style={styles.taskContent}
             onPress={handleTaskEdit}
+            onLongPress={onLongPress && handleLongPress}
             activeOpacity={0.7}
           >
             <View style={styles.taskInfo}>
               <View style={styles.taskTitleRow}>
-                <ThemedText
+                <HighlightedText
                   type="defaultSemiBold"
                   style={[
                     styles.taskTitle,
                     task.completed && { color: completedTextColor, textDecorationLine: 'line-through' }
                   ]}
-                >
-                  {task.title}
-                </ThemedText>
+                  text={task.title}
+                  query={highlightQuery}
+                />
+                {/* Repeat badge */}
+                {task.recurrence && (
+                  <IconSymbol
+                    name="repeat"
+                    size={14}
+                    color={completedTextColor}
+                    style={styles.badgeIcon}
+                  />
+                )}
+                {/* Reminder badge */}
+                {task.reminders && task.reminders.length > 0 && !task.completed && (
+                  <IconSymbol
+                    name="bell.fill"
+                    size={14}
+                    color={completedTextColor}
+                    style={styles.badgeIcon}
+                  />
+                )}
                 {/* Priority badge */}
                 {task.priority && (
                   <ThemedText style={[styles.priorityBadge, { color: '#FF3B30' }]}>
@@ -105,54 +170,95 @@ export function TaskGestureHandler({
                 )}
               </View>
               
+              {/* Due date - hidden for all-day tasks due today, red once overdue */}
+              {(task.hasDueTime || !isToday(task.dueDate)) && (
+                <ThemedText style={[styles.dueLabel, isTaskOverdue(task) && styles.overdueLabel]}>
+                  {formatRelativeDueDate(task.dueDate, { includeTime: task.hasDueTime })}
+                </ThemedText>
+              )}
+              
               {/* Category tag - only show if showCategoryName is true */}
-              {showCategoryName && (
+              {showCategoryName && categoryName && (
                 <ThemedText style={styles.categoryTag}>
-                  {task.category}
+                  {categoryName}
                 </ThemedText>
               )}
               
+              {/* Tag chips */}
+              {task.tags && task.tags.length > 0 && (
+                <View style={styles.tagRow}>
+                  {task.tags.map(tag => (
+                    <ThemedText key={tag} style={styles.tagChip}>
+                      #{tag}
+                    </ThemedText>
+                  ))}
+                </View>
+              )}
+              
               {/* Task description */}
               {task.description && (
-                <ThemedText
+                <HighlightedText
                   style={[
                     styles.taskDescription,
                     task.completed && { color: completedTextColor }
                   ]}
-                >
-                  {task.description}
-                </ThemedText>
+                  text={task.description}
+                  query={highlightQuery}
+                />
               )}
               
               {/* Subtasks list */}
               {task.subtasks && task.subtasks.length > 0 && (
                 <View style={styles.subtasksContainer}>
                   {task.subtasks.map((subtask) => (
-                    <ThemedText key={subtask.id} style={styles.subtaskText}>
-                      • {subtask.name}
-                    </ThemedText>
+                    <HighlightedText
+                      key={subtask.id}
+                      style={styles.subtaskText}
+                      text={`• ${subtask.name}`}
+                      query={highlightQuery}
+                    />
                   ))}
                 </View>
               )}
             </View>
           </TouchableOpacity>
           
-          {/* Completion checkbox - separate touchable area */}
+          {/* Drag handle - hidden while selecting */}
+          {onDragHandlePressIn && !selectionMode && (
+            <TouchableOpacity
+              onPressIn={handleDragHandlePressIn}
+              style={styles.dragHandle}
+              activeOpacity={0.5}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 0 }}
+            >
+              <IconSymbol name="line.3.horizontal" size={20} color={completedTextColor} />
+            </TouchableOpacity>
+          )}
+          
+          {/* Completion checkbox (selection indicator in selection mode) - separate touchable area */}
           <TouchableOpacity
             onPress={handleToggleCompletion}
             style={styles.checkboxTouchable}
             activeOpacity={0.7}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }} // Increase touch area
           >
-            <View style={[
-              styles.checkbox,
-              { borderColor },
-              task.completed && styles.checkedBox
-            ]}>
-              {task.completed && (
-                <ThemedText style={styles.checkmark}>✓</ThemedText>
-              )}
-            </View>
+            {selectionMode ? (
+              <View style={[styles.checkbox, styles.selectionBox, isSelected && styles.selectedBox]}>
+                {isSelected && (
+                  <ThemedText style={styles.checkmark}>✓</ThemedText>
+                )}
+              </View>
+            ) : (
+              <View style={[
+                styles.checkbox,
+                { borderColor },
+                task.completed && styles.checkedBox
+              ]}>
+                {task.completed && (
+                  <ThemedText style={styles.checkmark}>✓</ThemedText>
+                )}
+              </View>
+            )}
           </TouchableOpacity>
         </View>
       </View>
@@ -170,6 +276,13 @@ const styles = StyleSheet.create({
   completedTask: {
     opacity: 0.6,
   },
+  draggingTask: {
+    opacity: 0.3,
+  },
+  selectedTask: {
+    borderColor: '#007AFF',
+    backgroundColor: 'rgba(0, 122, 255, 0.08)',
+  },
   taskHeader: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -201,6 +314,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     flex: 1,
   },
+  badgeIcon: {
+    marginLeft: 8,
+  },
   priorityBadge: {
     fontSize: 12,
     paddingVertical: 4,
@@ -208,12 +324,38 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     marginLeft: 8,
   },
+  dueLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 2,
+  },
+  overdueLabel: {
+    color: '#FF3B30',
+  },
   categoryTag: {
     fontSize: 12,
     opacity: 0.6,
     fontWeight: '500',
     marginBottom: 2, // Reduced from 4 to 2
   },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 2,
+  },
+  tagChip: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '500',
+    color: '#007AFF',
+    backgroundColor: 'rgba(0, 122, 255, 0.1)',
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
   taskDescription: {
     marginTop: 4, // Reduced from 8 to 4
     opacity: 0.8,
@@ -227,6 +369,12 @@ const styles = StyleSheet.create({
     opacity: 0.8,
     marginBottom: 2, // Reduced from 4 to 2
   },
+  dragHandle: {
+    paddingVertical: 18,
+    paddingLeft: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   checkboxTouchable: {
     padding: 16,
     justifyContent: 'center',
@@ -244,6 +392,12 @@ const styles = StyleSheet.create({
     backgroundColor: '#34C759',
     borderColor: '#34C759',
   },
+  selectionBox: {
+    borderColor: '#007AFF',
+  },
+  selectedBox: {
+    backgroundColor: '#007AFF',
+  },
   checkmark: {
     color: 'white',
     fontSize: 14,
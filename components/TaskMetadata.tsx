@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Read-only creation, update and completion times shown in the task edit modals
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { Task } from '@/src/types';
+import { formatDate, formatTimeAgo } from '@/src/utils';
+
+interface TaskMetadataProps {
+  task: Pick<Task, 'createdAt' | 'updatedAt' | 'completedAt' | 'completed'>;
+}
+
+/**
+ * TaskMetadata component listing when a task was created, last changed and completed
+ *
+ * Each line shows a relative time ("2 days ago") and the exact date and time.
+ * The updated line is hidden until the task has been changed, and the completed line
+ * while the task is incomplete.
+ *
+ * @param props - Task whose timestamps to show
+ * @returns JSX.Element - Metadata lines
+ */
+export function TaskMetadata({ task }: TaskMetadataProps) {
+  const rows: { label: string; date: Date }[] = [{ label: 'Created', date: task.createdAt }];
+  if (task.updatedAt.getTime() !== task.createdAt.getTime()) {
+    rows.push({ label: 'Updated', date: task.updatedAt });
+  }
+  if (task.completed && task.completedAt) {
+    rows.push({ label: 'Completed', date: task.completedAt });
+  }
+
+  return (
+    <View style={styles.container}>
+      {rows.map(({ label, date }) => {
+        const exact = formatDate(date, { format: 'short', includeTime: true });
+        const ago = formatTimeAgo(date);
+        return (
+          <View key={label} style={styles.row}>
+            <ThemedText style={styles.metadataText}>{label}</ThemedText>
+            {/* Past a week the relative time is already the date */}
+            <ThemedText style={styles.metadataText}>
+              {exact.startsWith(ago) ? exact : `${ago} · ${exact}`}
+            </ThemedText>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    marginBottom: 24,
+    gap: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  metadataText: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Search filters and results list shared by the Search and Lists screens
+ */
+
+import React from 'react';
+import { FlatList, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ListPicker } from '@/components/ListPicker';
+import { TaskGestureHandler } from '@/components/TaskGestureHandler';
+import { useTaskContext } from '@/contexts/TaskContext';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ThemedText } from '@/src/components/common/ThemedText';
+import { CompletionFilter, Task, TaskSearchFilters, TaskSearchResult } from '@/src/types';
+
+interface TaskSearchResultsProps {
+  results: TaskSearchResult[];
+  query: string; // Query the results were computed for, highlighted in each card
+  filters: TaskSearchFilters;
+  onFiltersChange: (filters: TaskSearchFilters) => void;
+  onEdit: (task: Task) => void;
+  onToggleCompletion: (taskId: string) => void;
+  onDelete: (taskId: string, taskTitle: string) => void;
+}
+
+const COMPLETION_OPTIONS: { value: CompletionFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'incomplete', label: 'Incomplete' },
+  { value: 'completed', label: 'Completed' },
+];
+
+/**
+ * TaskSearchResults component showing filter chips above the matching tasks
+ *
+ * Features:
+ * - Completion filter (all / incomplete / completed)
+ * - List filter
+ * - Result cards with the list name and highlighted matches
+ *
+ * @param props - Results, filters and task action callbacks
+ * @returns JSX.Element - Filters and a scrollable list of results
+ */
+export function TaskSearchResults({
+  results,
+  query,
+  filters,
+  onFiltersChange,
+  onEdit,
+  onToggleCompletion,
+  onDelete
+}: TaskSearchResultsProps) {
+  const { categoryLists, getCategoryList } = useTaskContext();
+  const borderColor = useThemeColor({ light: '#E5E5E7', dark: '#2C2C2E' }, 'text');
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <View style={styles.container}>
+      {/* Filters */}
+      <View style={styles.filters}>
+        <View style={[styles.completionToggle, { borderColor }]}>
+          {COMPLETION_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.completionOption, filters.completion === option.value && styles.selectedCompletionOption]}
+              onPress={() => onFiltersChange({ ...filters, completion: option.value })}
+            >
+              <ThemedText
+                style={[styles.completionText, filters.completion === option.value && styles.selectedCompletionText]}
+              >
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <ListPicker
+          lists={categoryLists}
+          selectedListId={filters.listId ?? ''}
+          onSelect={(listId) => onFiltersChange({ ...filters, listId: listId || undefined })}
+          allOptionLabel="All Lists"
+        />
+      </View>
+
+      {/* Results */}
+      <FlatList
+        data={results}
+        keyExtractor={(result) => result.task.id}
+        renderItem={({ item }) => (
+          <TaskGestureHandler
+            task={item.task}
+            categoryColor={getCategoryList(item.task.listId)?.color || '#8E8E93'}
+            onEdit={onEdit}
+            onToggleCompletion={onToggleCompletion}
+            onDelete={onDelete}
+            showCategoryName={true}
+            categoryName={getCategoryList(item.task.listId)?.category}
+            highlightQuery={query}
+          />
+        )}
+        ListHeaderComponent={hasQuery && results.length > 0 ? (
+          <ThemedText style={styles.resultCount}>
+            {results.length} {results.length === 1 ? 'result' : 'results'}
+          </ThemedText>
+        ) : null}
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            {hasQuery ? `No tasks match "${query.trim()}"` : 'Search titles, descriptions and subtasks'}
+          </ThemedText>
+        }
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+        initialNumToRender={12}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  filters: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  completionToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  completionOption: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  selectedCompletionOption: {
+    backgroundColor: '#007AFF',
+  },
+  completionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  selectedCompletionText: {
+    color: '#FFFFFF',
+  },
+  resultCount: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.5,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -50,12 +50,17 @@ export function WelcomeModal({ visible, onClose }: WelcomeModalProps) {
     {
       icon: 'hand.point.left',
       title: 'Swipe Left to Delete',
-      description: 'Swipe any task to the left to delete it. You\'ll get an undo option for 5 seconds to restore accidentally deleted tasks.'
+      description: 'Swipe any task to the left to delete it. You\'ll get an undo option for 5 seconds to restore accidentally deleted tasks, covering every task you delete in a row.'
+    },
+    {
+      icon: 'checkmark.circle.fill',
+      title: 'Hold a Task to Select',
+      description: 'Hold down on a task on the Home or Lists screen to start selecting, then tap more tasks. Complete, move, prioritize, reschedule or delete them all at once, with a single undo.'
     },
     {
       icon: 'hand.tap.fill',
-      title: 'Hold to Delete List',
-      description: 'Hold down on any task list header for a moment to delete the entire list and all its tasks. A confirmation dialog will appear first.'
+      title: 'Hold to Edit or Delete List',
+      description: 'Hold down on any task list header for a moment to rename it, change its color and icon, or delete the entire list and all its tasks. Deleting asks for confirmation first.'
     },
     {
       icon: 'plus.circle',
@@ -70,6 +75,16 @@ export function WelcomeModal({ visible, onClose }: WelcomeModalProps) {
       title: 'Home Screen',
       description: 'View all tasks due today with progress tracking and animated reordering.'
     },
+    {
+      icon: 'clock.fill',
+      title: 'Upcoming Screen',
+      description: 'See the next 7 or 30 days at a glance. Hold and drag a task onto another day to reschedule it.'
+    },
+    {
+      icon: 'calendar',
+      title: 'Calendar Screen',
+      description: 'Browse tasks month by month. Tap a day to see its tasks or add a new one on that date.'
+    },
     {
       icon: 'list.bullet',
       title: 'Lists Screen',
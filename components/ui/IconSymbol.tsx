@@ -19,6 +19,7 @@ const MAPPING = {
   'list.dash': 'list',
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
+  'chevron.left': 'chevron-left',
   'chevron.right': 'chevron-right',
   'plus': 'add',
   'list.bullet': 'list',
@@ -33,6 +34,18 @@ const MAPPING = {
   'clock.fill': 'schedule',
   'checkmark.circle.fill': 'check-circle',
   'trash': 'delete',
+  'repeat': 'repeat',
+  'bell.fill': 'notifications',
+  'xmark': 'close',
+  'magnifyingglass': 'search',
+  'line.3.horizontal.decrease.circle': 'filter-list',
+  'xmark.circle.fill': 'cancel',
+  'tag.fill': 'label',
+  'line.3.horizontal': 'drag-handle',
+  'checkmark': 'check',
+  'arrow.up.arrow.down': 'sort',
+  'arrow.uturn.backward': 'restore',
+  'square.and.arrow.up': 'ios-share',
 } as IconMapping;
 
 /**
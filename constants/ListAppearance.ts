@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Colors and icons offered for category lists
+ * The first color and icon are the defaults for a new list.
+ */
+
+/** Hex colors a list can be given */
+export const PREDEFINED_COLORS = [
+  '#FF9500', // Orange
+  '#34C759', // Green
+  '#FF3B30', // Red
+  '#007AFF', // Blue
+  '#AF52DE', // Purple
+  '#FF2D92', // Pink
+  '#5AC8FA', // Light Blue
+  '#FFCC02', // Yellow
+];
+
+/** SF Symbol names a list can be given (mapped to Material Icons by IconSymbol) */
+export const PREDEFINED_ICONS = [
+  'list.bullet',
+  'folder.fill',
+  'briefcase.fill',
+  'house.fill',
+  'heart.fill',
+  'star.fill',
+  'bookmark.fill',
+  'flag.fill',
+  'target',
+  'calendar',
+  'clock.fill',
+  'checkmark.circle.fill',
+] as const;
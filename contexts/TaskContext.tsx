@@ -1,16 +1,100 @@
 /**
  * @fileoverview Task Context Provider for global task state management
- * Provides task CRUD operations, category management, and undo functionality
+ * Provides task CRUD operations, category management, undo/redo history, persistence
+ * and due-date reminders
  */
 
-import React, { createContext, ReactNode, useContext, useState } from 'react';
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
 
+import { createHistoryEntry, isEmptyChangeSet, MAX_HISTORY } from '@/contexts/taskHistory';
+import { initialTaskState, taskReducer, TRASH_RETENTION_DAYS } from '@/contexts/taskReducer';
+import {
+  selectCategoryLists,
+  selectOverdueTasks,
+  selectSearchIndex,
+  selectSmartListTasks,
+  selectTagCounts,
+  selectTasksDueOn,
+  selectTasksDueToday,
+  selectTasksWithTag,
+  selectTrash,
+  selectTrashSnapshot,
+  selectUpcomingTaskGroups
+} from '@/contexts/taskSelectors';
+import { createPlatformReminderDelivery, MAX_PENDING_REMINDERS, ReminderScheduler } from '@/src/reminders';
+import { AsyncStorageTaskRepository, mergeCategoryLists } from '@/src/storage';
 import {
   CategoryList,
-  DeletedTask,
+  CategoryListUpdates,
+  DayTaskGroup,
+  ImportMode,
+  NewTask,
+  SmartList,
+  SmartListUpdates,
+  TagCount,
   Task,
-  TaskContextType
+  TaskAction,
+  TaskContextType,
+  TaskHistoryEntry,
+  TaskRepository,
+  TaskSearchFilters,
+  TaskSearchResult,
+  TaskSnapshot,
+  TaskState,
+  TaskUpdates
 } from '@/src/types';
+import { debounce, formatDate, generateId } from '@/src/utils';
+import { searchTaskIndex } from '@/src/utils/search';
+import { normalizeTag } from '@/src/utils/tags';
+
+export { createHistoryEntry, diffTaskStates } from '@/contexts/taskHistory';
+export { initialTaskState, taskReducer, TRASH_RETENTION_DAYS } from '@/contexts/taskReducer';
+export {
+  normalizeCategoryLists,
+  selectCategoryLists,
+  selectOverdueTasks,
+  selectSearchIndex,
+  selectSmartListTasks,
+  selectTagCounts,
+  selectTaskById,
+  selectTasksByDay,
+  selectTasksDueOn,
+  selectTasksDueToday,
+  selectTasksWithTag,
+  selectTrash,
+  selectTrashSnapshot,
+  selectUpcomingTaskGroups
+} from '@/contexts/taskSelectors';
+
+/** Delay before changes are written to storage, batching rapid edits */
+const SAVE_DEBOUNCE_MS = 500;
+
+/** Longest delay setTimeout supports (about 24.8 days); later timers fire immediately */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** How long deletions keep being grouped into one undo step, matching the undo snackbar */
+const DELETE_UNDO_WINDOW_MS = 5000;
+
+/**
+ * Tasks deleted in quick succession, undone together as one step
+ */
+interface DeletionQueue {
+  /** State before the first deletion in the queue */
+  before: TaskState;
+  /** Deleted task ids, oldest first */
+  taskIds: string[];
+  /** History step covering every deletion in the queue */
+  entry: TaskHistoryEntry;
+  /** Closes the queue once no deletion has followed for the undo window */
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Repository used when TaskProvider is not given one explicitly */
+const defaultRepository = new AsyncStorageTaskRepository();
+
+/** Reminder scheduler used when TaskProvider is not given one explicitly */
+const defaultReminderScheduler = new ReminderScheduler(createPlatformReminderDelivery());
 
 /**
  * React Context for task management state
@@ -24,6 +108,12 @@ const TaskContext = createContext<TaskContextType | undefined>(undefined);
 interface TaskProviderProps {
   /** Child components that will have access to task context */
   children: ReactNode;
+  /** Storage adapter for loading and saving tasks (defaults to AsyncStorage); read once on mount */
+  storage?: TaskRepository;
+  /** Scheduler kept in sync with task reminders (defaults to notifications on device, banners on web) */
+  reminders?: ReminderScheduler;
+  /** Called once persisted data has been loaded (or loading has failed) */
+  onHydrated?: () => void;
 }
 
 /**
@@ -32,23 +122,358 @@ interface TaskProviderProps {
  * Manages all task-related state and operations including:
  * - Task CRUD operations (Create, Read, Update, Delete)
  * - Category list management
- * - Temporary deletion with undo functionality
- * - Today's tasks filtering
+ * - Undo and redo of changes to tasks and lists
+ * - A Trash keeping deleted lists and tasks for 30 days
+ * - Today's and overdue tasks filtering
+ * - Loading and debounced saving of lists through a TaskRepository
+ * - Rescheduling reminders whenever tasks change
  * 
- * @param props - Provider props containing children
+ * @param props - Provider props containing children and optional storage adapter
  * @returns JSX.Element - Context provider wrapping children
  * 
  * @example
  * <TaskProvider>
  *   <App />
  * </TaskProvider>
+ * 
+ * @example
+ * // In-memory storage for tests
+ * <TaskProvider storage={new InMemoryTaskRepository()}>
+ *   <App />
+ * </TaskProvider>
  */
-export function TaskProvider({ children }: TaskProviderProps) {
-  // Main state: Array of category lists, each containing tasks
-  const [categoryLists, setCategoryLists] = useState<CategoryList[]>([]);
-  
-  // Temporary storage for deleted tasks (enables undo functionality)
-  const [deletedTasks, setDeletedTasks] = useState<Map<string, DeletedTask>>(new Map());
+export function TaskProvider({ children, storage, reminders, onHydrated }: TaskProviderProps) {
+  // All task state, updated exclusively through dispatch; stateRef holds the latest value
+  // for callbacks that run outside of render (timers, promises) and for later calls in the same tick
+  const stateRef = useRef(initialTaskState);
+  const [state, setState] = useState(initialTaskState);
+
+  // Nested list shape for consumers, rebuilt only when the normalized state changes
+  const categoryLists = selectCategoryLists(state);
+  // Trash contents as persisted, rebuilt only when the Trash changes
+  const trashSnapshot = selectTrashSnapshot(state);
+
+  // Undo and redo stacks, most recent step last
+  const historyRef = useRef<{ undo: TaskHistoryEntry[]; redo: TaskHistoryEntry[] }>({ undo: [], redo: [] });
+  // Labels of the steps undo and redo would apply, kept in state so consumers re-render
+  const [historyLabels, setHistoryLabels] = useState<{ undo: string | null; redo: string | null }>({ undo: null, redo: null });
+  // State before the first change of the current tick, so related changes undo together
+  const pendingStepRef = useRef<TaskState | null>(null);
+
+  // Deletions still within their undo window, and their task ids for consumers
+  const deletionQueueRef = useRef<DeletionQueue | null>(null);
+  const [pendingDeletions, setPendingDeletions] = useState<string[]>([]);
+
+  /**
+   * Applies an action through taskReducer once, storing the result in stateRef so later calls
+   * in the same tick see the change, and publishing it to re-render consumers
+   *
+   * @param action - Action to apply
+   * @returns State after the action
+   */
+  const dispatch = (action: TaskAction): TaskState => {
+    const next = taskReducer(stateRef.current, action);
+    if (next !== stateRef.current) {
+      stateRef.current = next;
+      setState(next);
+    }
+    return next;
+  };
+
+  /**
+   * Publishes the labels at the top of the undo and redo stacks
+   */
+  const syncHistoryLabels = () => {
+    const { undo, redo } = historyRef.current;
+    setHistoryLabels({ undo: undo.at(-1)?.label ?? null, redo: redo.at(-1)?.label ?? null });
+  };
+
+  /**
+   * Forgets all undo and redo steps, e.g. when another source replaces the data
+   */
+  const clearHistory = () => {
+    closeDeletionQueue();
+    historyRef.current = { undo: [], redo: [] };
+    pendingStepRef.current = null;
+    syncHistoryLabels();
+  };
+
+  /**
+   * Adds a step to the undo stack, or replaces the most recent one, and clears the redo stack
+   *
+   * @param label - Description of the step
+   * @param before - State before the step
+   * @param after - State after the step
+   * @param replaceLast - Whether the step extends the most recent one
+   * @returns The recorded entry
+   */
+  const recordStep = (label: string, before: TaskState, after: TaskState, replaceLast: boolean): TaskHistoryEntry => {
+    const history = historyRef.current;
+    const entry = createHistoryEntry(label, before, after);
+    history.undo = replaceLast
+      ? [...history.undo.slice(0, -1), entry]
+      : [...history.undo, entry].slice(-MAX_HISTORY);
+    history.redo = [];
+    syncHistoryLabels();
+    return entry;
+  };
+
+  /**
+   * Applies an action and records it as an undoable step.
+   * Changes made in the same tick (such as an edit that also moves the task)
+   * form one step labelled by the last of them.
+   *
+   * @param action - Action to apply
+   * @param label - Description of the change for the undo snackbar
+   */
+  const commit = (action: TaskAction, label: string) => {
+    const before = stateRef.current;
+    const after = dispatch(action);
+    if (after === before) return;
+
+    // Any other change ends the group of deletions undone together
+    closeDeletionQueue();
+    const stepStart = pendingStepRef.current;
+    if (!stepStart) {
+      pendingStepRef.current = before;
+      Promise.resolve().then(() => {
+        pendingStepRef.current = null;
+      });
+    }
+    recordStep(label, stepStart ?? before, after, stepStart !== null);
+  };
+
+  /**
+   * Moves tasks to the Trash as an undoable step. Deletions following each other
+   * within the undo window extend the same step, so one undo restores them all.
+   *
+   * @param taskIds - Tasks to delete
+   */
+  const queueDeletion = (taskIds: string[]) => {
+    const deletedIds = taskIds.filter(taskId => stateRef.current.tasksById[taskId]);
+    if (deletedIds.length === 0) return;
+
+    // The queue can only grow while its step is still the most recent one
+    const queue = deletionQueueRef.current;
+    const extend = queue !== null && historyRef.current.undo.at(-1) === queue.entry;
+    if (!extend) closeDeletionQueue();
+
+    const before = extend ? queue.before : stateRef.current;
+    const queuedIds = extend ? [...queue.taskIds, ...deletedIds] : deletedIds;
+    const label = queuedIds.length === 1 ? `${describeTasks(deletedIds)} deleted` : `${queuedIds.length} tasks deleted`;
+
+    const after = dispatch({ type: 'DELETE_TASKS', taskIds: deletedIds, now: new Date() });
+    pendingStepRef.current = null;
+    const entry = recordStep(label, before, after, extend);
+
+    if (queue) clearTimeout(queue.timer);
+    deletionQueueRef.current = {
+      before,
+      taskIds: queuedIds,
+      entry,
+      timer: setTimeout(closeDeletionQueue, DELETE_UNDO_WINDOW_MS),
+    };
+    setPendingDeletions(queuedIds);
+  };
+
+  /**
+   * Ends the group of queued deletions; they stay in the Trash and keep their undo step
+   */
+  const closeDeletionQueue = () => {
+    const queue = deletionQueueRef.current;
+    if (!queue) return;
+    deletionQueueRef.current = null;
+    clearTimeout(queue.timer);
+    setPendingDeletions([]);
+  };
+
+  /**
+   * Quotes a task's title for history labels, or counts several tasks
+   *
+   * @param taskIds - Tasks the change applies to
+   * @returns e.g. `"Buy milk"` or `3 tasks`
+   */
+  const describeTasks = (taskIds: string[]): string => {
+    const tasks = taskIds.flatMap(taskId => stateRef.current.tasksById[taskId] ?? []);
+    return tasks.length === 1 ? `"${tasks[0].title}"` : `${tasks.length} tasks`;
+  };
+
+  /**
+   * Looks up a list's name for history labels
+   */
+  const listName = (listId: string): string => stateRef.current.listsById[listId]?.category ?? '';
+
+  // Whether persisted data has finished loading
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Storage adapter is fixed for the lifetime of the provider
+  const [repository] = useState<TaskRepository>(() => storage ?? defaultRepository);
+
+  // Reminder scheduler is fixed for the lifetime of the provider
+  const [reminderScheduler] = useState(() => reminders ?? defaultReminderScheduler);
+
+  // Writes are disabled if stored data could not be read, so it is never overwritten
+  const canPersistRef = useRef(true);
+
+  // Every snapshot saved by this provider, used to ignore our own change notifications
+  // (an earlier save may report back after a later one)
+  const ownSnapshotsRef = useRef(new WeakSet<TaskSnapshot>());
+  // Set when data arrives from the repository, so it is not written straight back
+  const skipNextSaveRef = useRef(false);
+
+  const saveSnapshot = (snapshot: TaskSnapshot) => {
+    ownSnapshotsRef.current.add(snapshot);
+    repository.save(snapshot);
+  };
+
+  const debouncedSave = useMemo(
+    () => debounce(saveSnapshot, SAVE_DEBOUNCE_MS),
+    // saveSnapshot only reads refs and the repository
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [repository]
+  );
+
+  /**
+   * Hydrate category lists from storage on mount
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    repository.load()
+      .then((snapshot) => {
+        if (!cancelled && snapshot) {
+          dispatch({
+            type: 'HYDRATE',
+            categoryLists: snapshot.categoryLists,
+            smartLists: snapshot.smartLists,
+            trash: snapshot.trash,
+          });
+          // Anything kept in the Trash past the retention period is removed for good
+          const cutoff = new Date();
+          cutoff.setDate(cutoff.getDate() - TRASH_RETENTION_DAYS);
+          dispatch({ type: 'EMPTY_TRASH', before: cutoff });
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading task data:', error);
+        canPersistRef.current = false;
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsHydrated(true);
+          onHydrated?.();
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Hydration runs once per provider mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repository]);
+
+  /**
+   * Apply changes saved to the repository by anyone other than this provider
+   */
+  useEffect(() => {
+    return repository.subscribe((snapshot) => {
+      if (ownSnapshotsRef.current.has(snapshot)) return;
+      // Local changes still waiting to be written are replaced by the incoming data
+      debouncedSave.cancel();
+      skipNextSaveRef.current = true;
+      // Steps recorded against the old data could not be applied cleanly
+      clearHistory();
+      dispatch({
+        type: 'HYDRATE',
+        categoryLists: snapshot.categoryLists,
+        smartLists: snapshot.smartLists,
+        trash: snapshot.trash,
+      });
+    });
+    // Subscribes once per repository; the helpers only touch refs and state setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repository]);
+
+  /**
+   * Persist changes after hydration, debounced to batch rapid edits
+   */
+  useEffect(() => {
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    if (isHydrated && canPersistRef.current) {
+      debouncedSave({ categoryLists, smartLists: state.smartLists, trash: trashSnapshot });
+    }
+  }, [categoryLists, state.smartLists, trashSnapshot, isHydrated, debouncedSave]);
+
+  /**
+   * Reschedule reminders after hydration whenever tasks change.
+   * Covers edits, completion toggles and deletions; the scheduler only
+   * touches reminders that were added, removed or moved.
+   * Only the soonest reminders are scheduled, so they are also rescheduled when the
+   * app becomes active and once the last scheduled one has fired, bringing in later ones.
+   */
+  useEffect(() => {
+    if (!isHydrated) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const syncReminders = () => {
+      clearTimeout(timer);
+      reminderScheduler.sync(selectCategoryLists(stateRef.current));
+      const scheduled = reminderScheduler.getScheduledReminders();
+      if (scheduled.length >= MAX_PENDING_REMINDERS) {
+        const delay = scheduled[scheduled.length - 1].fireDate.getTime() - Date.now();
+        timer = setTimeout(syncReminders, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS));
+      }
+    };
+
+    syncReminders();
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') syncReminders();
+    });
+    return () => {
+      clearTimeout(timer);
+      subscription.remove();
+    };
+  }, [categoryLists, isHydrated, reminderScheduler]);
+
+  /**
+   * Flush pending changes immediately when the app leaves the foreground,
+   * since a debounced write may never run if the app is then killed
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState !== 'active') {
+        // The snackbar is gone by the time the app returns, so later deletions start a new group
+        closeDeletionQueue();
+      }
+      if (appState !== 'active' && isHydrated && canPersistRef.current) {
+        const snapshot = {
+          categoryLists: selectCategoryLists(stateRef.current),
+          smartLists: stateRef.current.smartLists,
+          trash: selectTrashSnapshot(stateRef.current),
+        };
+        // The pending debounced write holds older data, so it must not run after this one
+        debouncedSave.cancel();
+        saveSnapshot(snapshot);
+      }
+    });
+    return () => subscription.remove();
+    // closeDeletionQueue and saveSnapshot only touch refs, state setters and the repository
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isHydrated, repository, debouncedSave]);
+
+  /**
+   * Stop the deletion queue timer when the provider unmounts
+   */
+  useEffect(() => {
+    return () => {
+      const queue = deletionQueueRef.current;
+      if (queue) clearTimeout(queue.timer);
+      deletionQueueRef.current = null;
+    };
+  }, []);
 
   /**
    * Adds a new category list to the application
@@ -57,6 +482,7 @@ export function TaskProvider({ children }: TaskProviderProps) {
    * 
    * @example
    * addCategoryList({
+   *   id: generateId(),
    *   category: "Work",
    *   tasks: [],
    *   color: "#FF0000",
@@ -64,54 +490,103 @@ export function TaskProvider({ children }: TaskProviderProps) {
    * });
    */
   const addCategoryList = (categoryList: CategoryList) => {
-    setCategoryLists(prev => [...prev, categoryList]);
+    commit({ type: 'ADD_CATEGORY_LIST', categoryList }, `List "${categoryList.category}" created`);
+  };
+
+  /**
+   * Updates a category list's name, color or icon
+   * 
+   * Tasks reference lists by id, so they stay attached through any change.
+   * 
+   * @param listId - Unique identifier of the list to update
+   * @param updates - Fields to change
+   * 
+   * @example
+   * updateCategoryList("list-123", { color: "#34C759", icon: "star.fill" });
+   */
+  const updateCategoryList = (listId: string, updates: CategoryListUpdates) => {
+    commit({ type: 'UPDATE_CATEGORY_LIST', listId, updates }, `List "${updates.category ?? listName(listId)}" edited`);
+  };
+
+  /**
+   * Renames a category list
+   * 
+   * @param listId - Unique identifier of the list to rename
+   * @param name - New display name
+   * 
+   * @example
+   * renameCategoryList("list-123", "Work Projects");
+   */
+  const renameCategoryList = (listId: string, name: string) => {
+    updateCategoryList(listId, { category: name });
   };
 
   /**
-   * Adds a new task to the specified category
+   * Moves a list to another position among the lists
    * 
-   * @param task - The task to add (must have valid category)
+   * @param listId - Unique identifier of the list to move
+   * @param position - Index among the other lists (0 moves it to the top)
+   * 
+   * @example
+   * moveCategoryList(workList.id, 0); // Show Work first
+   */
+  const moveCategoryList = (listId: string, position: number) => {
+    commit({ type: 'MOVE_CATEGORY_LIST', listId, position }, `List "${listName(listId)}" reordered`);
+  };
+
+  /**
+   * Looks up a category list by id
+   * 
+   * @param listId - Unique identifier of the list
+   * @returns The list with its tasks, or undefined if it does not exist
+   */
+  const getCategoryList = (listId: string): CategoryList | undefined =>
+    categoryLists.find(categoryList => categoryList.id === listId);
+
+  /**
+   * Adds a new task to the specified category, stamping its creation time
+   * 
+   * @param task - The task to add (must reference an existing list)
    * 
    * @example
    * addTask({
-   *   id: "123",
+   *   id: generateId(),
    *   title: "Complete project",
-   *   category: "Work",
+   *   listId: workList.id,
    *   completed: false,
    *   dueDate: new Date()
    * });
    */
-  const addTask = (task: Task) => {
-    setCategoryLists(prev =>
-      prev.map(categoryList =>
-        categoryList.category === task.category
-          ? { ...categoryList, tasks: [...categoryList.tasks, task] }
-          : categoryList
-      )
-    );
+  const addTask = (task: NewTask) => {
+    const now = new Date();
+    commit({
+      type: 'ADD_TASK',
+      task: { ...task, createdAt: now, updatedAt: now, completedAt: task.completed ? now : undefined },
+    }, `"${task.title}" added`);
   };
 
   /**
    * Toggles the completion status of a task
    * 
+   * Completing a recurring task adds its next occurrence to the same list.
+   * 
    * @param taskId - Unique identifier of the task to toggle
    * 
    * @example
    * toggleTaskCompletion("task-123");
    */
   const toggleTaskCompletion = (taskId: string) => {
-    setCategoryLists(prev =>
-      prev.map(categoryList => ({
-        ...categoryList,
-        tasks: categoryList.tasks.map(task =>
-          task.id === taskId ? { ...task, completed: !task.completed } : task
-        )
-      }))
+    const task = stateRef.current.tasksById[taskId];
+    if (!task) return;
+    // The id is only used if the reducer creates a next occurrence
+    commit(
+      { type: 'TOGGLE_TASK_COMPLETION', taskId, nextTaskId: generateId(), now: new Date() },
+      `"${task.title}" ${task.completed ? 'marked incomplete' : 'completed'}`
     );
   };
 
   /**
-   * Updates an existing task with new data
+   * Updates an existing task with new data (its list is changed with moveTask)
    * 
    * @param taskId - Unique identifier of the task to update
    * @param updates - Partial task object with fields to update
@@ -123,128 +598,272 @@ export function TaskProvider({ children }: TaskProviderProps) {
    *   priority: "!!!"
    * });
    */
-  const updateTask = (taskId: string, updates: Partial<Omit<Task, 'id'>>) => {
-    setCategoryLists(prev =>
-      prev.map(categoryList => ({
-        ...categoryList,
-        tasks: categoryList.tasks.map(task =>
-          task.id === taskId ? { ...task, ...updates } : task
-        )
-      }))
+  const updateTask = (taskId: string, updates: TaskUpdates) => {
+    commit({ type: 'UPDATE_TASK', taskId, updates, now: new Date() }, `${describeTasks([taskId])} edited`);
+  };
+
+  /**
+   * Moves a task to another list, or to another position within its own list
+   * 
+   * @param taskId - Unique identifier of the task to move
+   * @param listId - Unique identifier of the target list
+   * @param position - Index among the target list's other tasks (defaults to the end)
+   * 
+   * @example
+   * moveTask("task-123", workList.id);    // Append to Work
+   * moveTask("task-123", workList.id, 0); // Move to the top of Work
+   */
+  const moveTask = (taskId: string, listId: string, position?: number) => {
+    const reordered = stateRef.current.tasksById[taskId]?.listId === listId;
+    commit(
+      { type: 'MOVE_TASKS', taskIds: [taskId], listId, position, now: new Date() },
+      `${describeTasks([taskId])} ${reordered ? 'reordered' : `moved to ${listName(listId)}`}`
     );
   };
 
   /**
-   * Deletes a task with undo functionality
+   * Moves tasks to another day in a single update, keeping each task's time of day
    * 
-   * Implements soft delete pattern:
-   * 1. Removes task from UI immediately
-   * 2. Stores task temporarily for undo capability
-   * 3. Auto-deletes permanently after 5 seconds
+   * @param taskIds - Unique identifiers of the tasks to move
+   * @param date - Any time on the target day
    * 
-   * @param taskId - Unique identifier of the task to delete
-   * @returns Promise<boolean> - true if permanently deleted, false if temporary
+   * @example
+   * rescheduleTasks(getOverdueTasks().map(task => task.id), new Date()); // Everything overdue to today
+   */
+  const rescheduleTasks = (taskIds: string[], date: Date) => {
+    commit(
+      { type: 'RESCHEDULE_TASKS', taskIds, date, now: new Date() },
+      `${describeTasks(taskIds)} moved to ${formatDate(date, { format: 'short' })}`
+    );
+  };
+
+  /**
+   * Marks several tasks complete or incomplete in a single update
+   * 
+   * Completed recurring tasks get their next occurrence, as with toggleTaskCompletion.
+   * 
+   * @param taskIds - Unique identifiers of the tasks to update
+   * @param completed - Completion status to set (defaults to true)
    * 
    * @example
-   * const isPermanent = await deleteTask("task-123");
-   * if (!isPermanent) {
-   *   // Show undo option to user
-   * }
-   */
-  const deleteTask = (taskId: string): Promise<boolean> => {
-    return new Promise((resolve) => {
-      let deletedTask: Task | null = null;
-      let categoryName = '';
-
-      // Remove task from categoryLists and capture it for potential restoration
-      setCategoryLists(prev =>
-        prev.map(categoryList => {
-          const taskIndex = categoryList.tasks.findIndex(task => task.id === taskId);
-          if (taskIndex !== -1) {
-            deletedTask = categoryList.tasks[taskIndex];
-            categoryName = categoryList.category;
-            return {
-              ...categoryList,
-              tasks: categoryList.tasks.filter(task => task.id !== taskId)
-            };
-          }
-          return categoryList;
-        })
-      );
-
-      if (deletedTask) {
-        // Set up auto-delete timer (5 seconds)
-        const timeoutId = setTimeout(() => {
-          // Permanently delete: remove from temporary storage
-          setDeletedTasks(prev => {
-            const newMap = new Map(prev);
-            newMap.delete(taskId);
-            return newMap;
-          });
-          resolve(true); // Task permanently deleted
-        }, 5000);
-
-        // Store in temporary deleted tasks for potential restoration
-        setDeletedTasks(prev => {
-          const newMap = new Map(prev);
-          newMap.set(taskId, {
-            task: deletedTask!,
-            categoryName,
-            timeoutId
-          });
-          return newMap;
-        });
+   * completeTasks(selectedIds);
+   */
+  const completeTasks = (taskIds: string[], completed: boolean = true) => {
+    // Ids are only used for recurring tasks that get a next occurrence
+    const nextTaskIds = Object.fromEntries(taskIds.map(taskId => [taskId, generateId()]));
+    commit(
+      { type: 'COMPLETE_TASKS', taskIds, completed, nextTaskIds, now: new Date() },
+      `${describeTasks(taskIds)} marked ${completed ? 'complete' : 'incomplete'}`
+    );
+  };
 
-        resolve(false); // Task temporarily deleted (can be undone)
-      } else {
-        resolve(true); // Task not found, consider it deleted
-      }
-    });
+  /**
+   * Applies the same changes to several tasks in a single update
+   * 
+   * @param taskIds - Unique identifiers of the tasks to update
+   * @param updates - Fields to set on every task
+   * 
+   * @example
+   * updateTasks(selectedIds, { priority: '!!!' });
+   */
+  const updateTasks = (taskIds: string[], updates: TaskUpdates) => {
+    // Setting only a priority is the common bulk edit, so it gets a specific label
+    const onlyPriority = Object.keys(updates).length === 1 && 'priority' in updates;
+    const label = !onlyPriority
+      ? `${describeTasks(taskIds)} updated`
+      : updates.priority
+        ? `Priority ${updates.priority} set on ${describeTasks(taskIds)}`
+        : `Priority cleared on ${describeTasks(taskIds)}`;
+    commit({ type: 'UPDATE_TASKS', taskIds, updates, now: new Date() }, label);
+  };
+
+  /**
+   * Moves several tasks to the end of another list in a single update
+   * 
+   * @param taskIds - Unique identifiers of the tasks to move
+   * @param listId - Unique identifier of the target list
+   * 
+   * @example
+   * moveTasks(selectedIds, workList.id);
+   */
+  const moveTasks = (taskIds: string[], listId: string) => {
+    commit(
+      { type: 'MOVE_TASKS', taskIds, listId, now: new Date() },
+      `${describeTasks(taskIds)} moved to ${listName(listId)}`
+    );
+  };
+
+  /**
+   * Moves several tasks to the Trash in a single update that one undo brings back,
+   * along with any other tasks deleted within the last few seconds
+   * 
+   * @param taskIds - Unique identifiers of the tasks to delete
+   * 
+   * @example
+   * deleteTasks(selectedIds);
+   */
+  const deleteTasks = (taskIds: string[]) => {
+    queueDeletion(taskIds);
+  };
+
+  /**
+   * Moves the most recent step from one history stack to the other, applying its changes
+   *
+   * @param from - Stack to take the step from
+   * @param to - Stack to put the step on
+   * @param direction - Which side of the step to apply
+   * @returns true if a step was applied
+   */
+  const applyHistoryStep = (from: 'undo' | 'redo', to: 'undo' | 'redo', direction: 'undo' | 'redo'): boolean => {
+    const history = historyRef.current;
+    const entry = history[from].at(-1);
+    if (!entry) return false;
+
+    const changes = entry[direction];
+    pendingStepRef.current = null;
+    history[from] = history[from].slice(0, -1);
+    history[to] = [...history[to], entry].slice(-MAX_HISTORY);
+    if (!isEmptyChangeSet(changes)) {
+      dispatch({ type: 'APPLY_CHANGES', changes });
+    }
+    closeDeletionQueue();
+    syncHistoryLabels();
+    return true;
+  };
+
+  /**
+   * Reverts the most recent change to tasks or lists
+   *
+   * Changes made since by another step are kept; a task whose list has been
+   * deleted in the meantime stays deleted. Smart list filters are not reverted.
+   *
+   * @returns true if a change was undone, false if there was nothing to undo
+   *
+   * @example
+   * <Snackbar message={undoLabel} actionText="UNDO" onAction={undo} ... />
+   */
+  const undo = (): boolean => applyHistoryStep('undo', 'redo', 'undo');
+
+  /**
+   * Makes the most recently undone change again; any new change clears what can be redone
+   *
+   * @returns true if a change was redone, false if there was nothing to redo
+   *
+   * @example
+   * if (redoLabel) redo();
+   */
+  const redo = (): boolean => applyHistoryStep('redo', 'undo', 'redo');
+
+  /**
+   * Moves a task to the Trash, where it is kept for 30 days
+   * 
+   * Tasks deleted one after another within a few seconds form a single undo step,
+   * so one undo brings all of them back; `pendingDeletions` lists them meanwhile.
+   * 
+   * @param taskId - Unique identifier of the task to delete
+   * 
+   * @example
+   * deleteTask("task-123");
+   * undoSnackbar.show(); // Offer to undo the deletion
+   */
+  const deleteTask = (taskId: string) => {
+    queueDeletion([taskId]);
   };
 
   /**
-   * Restores a temporarily deleted task
+   * Restores a task from the Trash to the end of its list
+   * 
+   * If the list has since been deleted it is recreated as it was when the task was
+   * deleted; other tasks deleted along with the list stay in the Trash.
    * 
-   * @param taskId - Unique identifier of the task to restore
+   * @param taskId - Unique identifier of the deleted task
    * 
    * @example
    * restoreTask("task-123"); // Brings back deleted task
    */
   const restoreTask = (taskId: string) => {
-    const deletedTaskData = deletedTasks.get(taskId);
-    if (deletedTaskData) {
-      // Clear the auto-delete timeout
-      clearTimeout(deletedTaskData.timeoutId);
-
-      // Restore task to its original category
-      setCategoryLists(prev =>
-        prev.map(categoryList =>
-          categoryList.category === deletedTaskData.categoryName
-            ? { ...categoryList, tasks: [...categoryList.tasks, deletedTaskData.task] }
-            : categoryList
-        )
-      );
-
-      // Remove from deleted tasks storage
-      setDeletedTasks(prev => {
-        const newMap = new Map(prev);
-        newMap.delete(taskId);
-        return newMap;
-      });
-    }
+    const deleted = stateRef.current.deletedTasks[taskId];
+    if (!deleted) return;
+    commit({ type: 'RESTORE_TASK', taskId }, `"${deleted.task.title}" restored`);
+  };
+
+  /**
+   * Moves an entire category list and all its tasks to the Trash; undo brings both back
+   * 
+   * Smart lists restricted to the list keep it in their filter, so they show its
+   * tasks again once it is restored.
+   * 
+   * @param listId - Unique identifier of the list to delete
+   * 
+   * @example
+   * deleteCategoryList(workList.id); // Moves the Work list and all its tasks to the Trash
+   */
+  const deleteCategoryList = (listId: string) => {
+    commit({ type: 'DELETE_CATEGORY_LIST', listId, now: new Date() }, `List "${listName(listId)}" deleted`);
+  };
+
+  /**
+   * Restores a list from the Trash to the end of the lists, with the tasks deleted along with it
+   * 
+   * @param listId - Unique identifier of the deleted list
+   * 
+   * @example
+   * restoreCategoryList(workList.id);
+   */
+  const restoreCategoryList = (listId: string) => {
+    const deleted = stateRef.current.deletedLists[listId];
+    if (!deleted) return;
+    commit({ type: 'RESTORE_CATEGORY_LIST', listId }, `List "${deleted.list.category}" restored`);
+  };
+
+  /**
+   * Permanently removes a task from the Trash
+   * 
+   * @param taskId - Unique identifier of the deleted task
+   */
+  const purgeDeletedTask = (taskId: string) => {
+    dispatch({ type: 'PURGE_DELETED_TASK', taskId });
+  };
+
+  /**
+   * Permanently removes a list and the tasks deleted along with it from the Trash
+   * 
+   * @param listId - Unique identifier of the deleted list
+   */
+  const purgeDeletedList = (listId: string) => {
+    dispatch({ type: 'PURGE_DELETED_LIST', listId });
+  };
+
+  /**
+   * Permanently removes everything in the Trash
+   * 
+   * @example
+   * emptyTrash();
+   */
+  const emptyTrash = () => {
+    dispatch({ type: 'EMPTY_TRASH' });
   };
 
   /**
-   * Deletes an entire category list and all its tasks
+   * Brings lists and tasks in from a backup or CSV file as one undoable step
    * 
-   * @param categoryName - Name of the category to delete
+   * @param importedLists - Lists read from a backup, or grouped from CSV rows
+   * @param mode - 'merge' keeps the imported ids, adding lists and tasks whose id is not here yet and
+   *   skipping tasks whose id already exists; 'replace' swaps all lists for the imported ones
    * 
    * @example
-   * deleteCategoryList("Work"); // Removes entire Work category and all its tasks
+   * const { categoryLists } = parseBackup(text);
+   * importCategoryLists(categoryLists, 'merge');
    */
-  const deleteCategoryList = (categoryName: string) => {
-    setCategoryLists(prev =>
-      prev.filter(categoryList => categoryList.category !== categoryName)
+  const importCategoryLists = (importedLists: CategoryList[], mode: ImportMode) => {
+    if (mode === 'replace') {
+      commit({ type: 'IMPORT_CATEGORY_LISTS', categoryLists: importedLists }, 'Lists replaced from backup');
+      return;
+    }
+    const { categoryLists: merged, addedTasks } = mergeCategoryLists(selectCategoryLists(stateRef.current), importedLists);
+    commit(
+      { type: 'IMPORT_CATEGORY_LISTS', categoryLists: merged },
+      `${addedTasks} ${addedTasks === 1 ? 'task' : 'tasks'} imported`
     );
   };
 
@@ -257,31 +876,181 @@ export function TaskProvider({ children }: TaskProviderProps) {
    * const todayTasks = getTasksDueToday();
    * console.log(`You have ${todayTasks.length} tasks due today`);
    */
-  const getTasksDueToday = (): Task[] => {
-    const today = new Date();
-    const todayString = today.toDateString();
-    
-    // Flatten all tasks from all categories
-    const allTasks = categoryLists.flatMap(categoryList => categoryList.tasks);
-    
-    // Filter tasks due today
-    return allTasks.filter(task => {
-      const taskDate = new Date(task.dueDate);
-      return taskDate.toDateString() === todayString;
-    });
+  const getTasksDueToday = (): Task[] => selectTasksDueToday(state);
+
+  /**
+   * Retrieves all tasks due on a given day
+   * 
+   * @param date - Any time on the day
+   * @returns Array of tasks whose due date falls on that calendar day
+   * 
+   * @example
+   * const tasks = getTasksDueOn(new Date(2024, 2, 15));
+   */
+  const getTasksDueOn = (date: Date): Task[] => selectTasksDueOn(state, date);
+
+  /**
+   * Retrieves incomplete tasks whose due day has passed
+   * 
+   * @returns Array of overdue tasks, oldest first
+   * 
+   * @example
+   * const overdue = getOverdueTasks();
+   * console.log(`${overdue.length} tasks are overdue`);
+   */
+  const getOverdueTasks = (): Task[] => selectOverdueTasks(state);
+
+  /**
+   * Groups incomplete tasks by due day, starting today
+   * 
+   * @param days - Number of days to include
+   * @returns One group per day, including days with no tasks
+   * 
+   * @example
+   * const week = getUpcomingTasks(7);
+   * week.forEach(({ date, tasks }) => console.log(date.toDateString(), tasks.length));
+   */
+  const getUpcomingTasks = (days: number): DayTaskGroup[] => selectUpcomingTaskGroups(state, days);
+
+  /**
+   * Searches task titles, descriptions and subtask names across all lists.
+   * Keeps its identity until tasks change, so callers can memoize results on it.
+   * 
+   * @param query - Text to look for; every word must match somewhere in the task
+   * @param filters - Optional completion and list filters
+   * @returns Matching tasks, title matches first
+   * 
+   * @example
+   * const results = searchTasks('groceries', { completion: 'incomplete' });
+   */
+  const searchIndex = selectSearchIndex(state);
+  const searchTasks = useCallback(
+    (query: string, filters?: TaskSearchFilters): TaskSearchResult[] => searchTaskIndex(searchIndex, query, filters),
+    [searchIndex]
+  );
+
+  /**
+   * Saves a new smart list
+   * 
+   * @param smartList - The smart list to add
+   * 
+   * @example
+   * addSmartList({
+   *   id: generateId(),
+   *   name: "High priority this week",
+   *   color: "#FF3B30",
+   *   filter: { priorities: ['!!!'], dueRange: 'thisWeek', completion: 'incomplete' }
+   * });
+   */
+  const addSmartList = (smartList: SmartList) => {
+    dispatch({ type: 'ADD_SMART_LIST', smartList });
+  };
+
+  /**
+   * Updates a smart list's name, color or filter
+   * 
+   * @param smartListId - Unique identifier of the smart list to update
+   * @param updates - Fields to change
+   */
+  const updateSmartList = (smartListId: string, updates: SmartListUpdates) => {
+    dispatch({ type: 'UPDATE_SMART_LIST', smartListId, updates });
+  };
+
+  /**
+   * Deletes a smart list; the tasks it showed are not affected
+   * 
+   * @param smartListId - Unique identifier of the smart list to delete
+   */
+  const deleteSmartList = (smartListId: string) => {
+    dispatch({ type: 'DELETE_SMART_LIST', smartListId });
+  };
+
+  /**
+   * Retrieves the tasks currently matching a smart list's filter
+   * 
+   * @param smartListId - Unique identifier of the smart list
+   * @returns Matching tasks ordered by due date
+   */
+  const getSmartListTasks = (smartListId: string): Task[] => selectSmartListTasks(state, smartListId);
+
+  /**
+   * Retrieves every tag in use with the number of tasks carrying it
+   * 
+   * @returns Tags sorted alphabetically
+   * 
+   * @example
+   * getTags().forEach(({ tag, count }) => console.log(`#${tag}: ${count}`));
+   */
+  const getTags = (): TagCount[] => selectTagCounts(state);
+
+  /**
+   * Retrieves all tasks carrying a tag
+   * 
+   * @param tag - Normalized tag name
+   * @returns Tasks with the tag, ordered by due date
+   */
+  const getTasksWithTag = (tag: string): Task[] => selectTasksWithTag(state, tag);
+
+  /**
+   * Renames a tag on every task (and smart list) that uses it.
+   * Renaming onto a tag that already exists merges the two.
+   * 
+   * @param from - Current tag name
+   * @param to - New tag name (normalized before use)
+   * 
+   * @example
+   * renameTag('waiting', 'waiting-on');
+   */
+  const renameTag = (from: string, to: string) => {
+    const tag = normalizeTag(to);
+    commit({ type: 'RENAME_TAG', from, to: tag, now: new Date() }, `#${from} renamed to #${tag}`);
   };
 
   // Context value object containing all task operations
   const contextValue: TaskContextType = {
     categoryLists,
+    isHydrated,
     addCategoryList,
+    updateCategoryList,
+    renameCategoryList,
+    moveCategoryList,
+    getCategoryList,
     addTask,
     toggleTaskCompletion,
     updateTask,
+    moveTask,
     deleteTask,
     restoreTask,
     getTasksDueToday,
+    getTasksDueOn,
+    getOverdueTasks,
+    getUpcomingTasks,
+    rescheduleTasks,
+    completeTasks,
+    updateTasks,
+    moveTasks,
+    deleteTasks,
+    undo,
+    redo,
+    undoLabel: historyLabels.undo,
+    redoLabel: historyLabels.redo,
+    pendingDeletions,
+    searchTasks,
+    smartLists: state.smartLists,
+    addSmartList,
+    updateSmartList,
+    deleteSmartList,
+    getSmartListTasks,
+    getTags,
+    getTasksWithTag,
+    renameTag,
     deleteCategoryList,
+    trash: selectTrash(state),
+    restoreCategoryList,
+    purgeDeletedTask,
+    purgeDeletedList,
+    emptyTrash,
+    importCategoryLists,
   };
 
   return (
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Undo/redo history for task state
+ * Each history entry stores the changes between two task states in both directions,
+ * so any change to tasks or lists can be reverted and made again with `APPLY_CHANGES`
+ */
+
+import { TaskChangeSet, TaskHistoryEntry, TaskState } from '@/src/types';
+
+/** Maximum number of steps kept in each of the undo and redo stacks */
+export const MAX_HISTORY = 50;
+
+/**
+ * Collects the items of ordered groups that are new, changed or no longer at the same index
+ */
+const diffOrdered = <T>(
+  fromItems: Record<string, T>,
+  fromIds: string[] | undefined,
+  toItems: Record<string, T>,
+  toIds: string[]
+): { item: T; position: number }[] => {
+  const changes: { item: T; position: number }[] = [];
+  toIds.forEach((id, position) => {
+    const item = toItems[id];
+    if (!item) return;
+    const moved = toIds !== fromIds && fromIds?.[position] !== id;
+    if (moved || fromItems[id] !== item) {
+      changes.push({ item, position });
+    }
+  });
+  return changes;
+};
+
+/**
+ * Collects the entries of a keyed record that are new or changed, and the keys that are gone
+ */
+const diffRecord = <T>(from: Record<string, T>, to: Record<string, T>): { put: T[]; remove: string[] } => ({
+  put: Object.keys(to).filter(id => from[id] !== to[id]).map(id => to[id]),
+  remove: Object.keys(from).filter(id => !(id in to)),
+});
+
+/**
+ * Computes the changes that turn one task state into another.
+ * Smart lists are not part of the diff.
+ *
+ * @param from - State the changes apply to
+ * @param to - State the changes produce
+ * @returns Lists and tasks to put in place, and ids to remove
+ *
+ * @example
+ * const changes = diffTaskStates(after, before); // reverts the step from before to after
+ */
+export const diffTaskStates = (from: TaskState, to: TaskState): TaskChangeSet => {
+  const lists = diffOrdered(from.listsById, from.listOrder, to.listsById, to.listOrder)
+    .map(({ item, position }) => ({ list: item, position }));
+
+  const tasks = to.listOrder.flatMap(listId =>
+    diffOrdered(from.tasksById, from.taskIdsByList[listId], to.tasksById, to.taskIdsByList[listId] ?? [])
+      .map(({ item, position }) => ({ task: item, position }))
+  );
+
+  const trashLists = diffRecord(from.deletedLists, to.deletedLists);
+  const trashTasks = diffRecord(from.deletedTasks, to.deletedTasks);
+
+  return {
+    lists,
+    tasks,
+    removeListIds: Object.keys(from.listsById).filter(listId => !to.listsById[listId]),
+    removeTaskIds: Object.keys(from.tasksById).filter(taskId => !to.tasksById[taskId]),
+    trashLists: trashLists.put,
+    trashTasks: trashTasks.put,
+    removeTrashListIds: trashLists.remove,
+    removeTrashTaskIds: trashTasks.remove,
+  };
+};
+
+/**
+ * Whether a change set leaves state as it is
+ *
+ * @param changes - Change set to check
+ * @returns True if there is nothing to apply
+ */
+export const isEmptyChangeSet = (changes: TaskChangeSet): boolean =>
+  changes.lists.length === 0 &&
+  changes.tasks.length === 0 &&
+  changes.removeListIds.length === 0 &&
+  changes.removeTaskIds.length === 0 &&
+  changes.trashLists.length === 0 &&
+  changes.trashTasks.length === 0 &&
+  changes.removeTrashListIds.length === 0 &&
+  changes.removeTrashTaskIds.length === 0;
+
+/**
+ * Creates the history entry for a step between two states
+ *
+ * @param label - Description of the step, shown in the undo snackbar
+ * @param before - State before the step
+ * @param after - State after the step
+ * @returns Entry whose `undo` restores `before` and whose `redo` restores `after`
+ *
+ * @example
+ * createHistoryEntry('"Buy milk" deleted', before, taskReducer(before, action))
+ */
+export const createHistoryEntry = (label: string, before: TaskState, after: TaskState): TaskHistoryEntry => ({
+  label,
+  undo: diffTaskStates(after, before),
+  redo: diffTaskStates(before, after),
+});
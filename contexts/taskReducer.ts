@@ -0,0 +1,508 @@
+/**
+ * @fileoverview Pure state transitions for task management
+ * Every change to task state goes through `taskReducer`, which has no React
+ * or platform dependencies and can be exercised directly in Node
+ */
+
+import { normalizeCategoryLists } from '@/contexts/taskSelectors';
+import { ListRecord, Task, TaskAction, TaskState, TaskUpdates } from '@/src/types';
+import { moveToDay } from '@/src/utils';
+import { createNextOccurrence } from '@/src/utils/recurrence';
+import { replaceTag } from '@/src/utils/tags';
+
+/**
+ * Initial task state before any data has been loaded
+ */
+export const initialTaskState: TaskState = {
+  tasksById: {},
+  listsById: {},
+  listOrder: [],
+  taskIdsByList: {},
+  deletedTasks: {},
+  deletedLists: {},
+  smartLists: [],
+};
+
+/** Days deleted lists and tasks stay in the Trash before they are removed for good */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Removes a key from a record without mutating it
+ */
+const omitKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+  const { [key]: _omitted, ...rest } = record;
+  return rest;
+};
+
+/**
+ * Replaces a single task, leaving state untouched if the task does not exist
+ */
+const patchTask = (state: TaskState, taskId: string, update: (task: Task) => Task): TaskState => {
+  const task = state.tasksById[taskId];
+  if (!task) return state;
+  return { ...state, tasksById: { ...state.tasksById, [taskId]: update(task) } };
+};
+
+/**
+ * Puts a deleted list back at the end of the lists, without tasks, and takes it out of the Trash.
+ * Tasks deleted along with it stay in the Trash and can be restored one by one.
+ */
+const recreateList = (state: TaskState, list: ListRecord): TaskState => ({
+  ...state,
+  listsById: { ...state.listsById, [list.id]: list },
+  listOrder: [...state.listOrder, list.id],
+  taskIdsByList: { ...state.taskIdsByList, [list.id]: [] },
+  deletedLists: omitKey(state.deletedLists, list.id),
+});
+
+/**
+ * Applies changes to a task and stamps `updatedAt`, setting `completedAt` when the
+ * task becomes completed and clearing it when the task is marked incomplete
+ */
+const touchTask = (task: Task, changes: TaskUpdates & Partial<Pick<Task, 'listId'>>, now: Date): Task => {
+  const updated: Task = {
+    ...task,
+    ...changes,
+    id: task.id,
+    createdAt: task.createdAt,
+    updatedAt: now,
+    completedAt: task.completedAt,
+  };
+  if (updated.completed !== task.completed) {
+    updated.completedAt = updated.completed ? now : undefined;
+  }
+  return updated;
+};
+
+/**
+ * Task reducer computing the next state for an action
+ * 
+ * @param state - Current task state
+ * @param action - Action describing the change
+ * @returns Next task state (the same object if nothing changed)
+ * 
+ * @example
+ * const next = taskReducer(state, { type: 'TOGGLE_TASK_COMPLETION', taskId: '123', now: new Date() });
+ */
+export function taskReducer(state: TaskState, action: TaskAction): TaskState {
+  switch (action.type) {
+    case 'HYDRATE':
+      return {
+        ...state,
+        ...normalizeCategoryLists(action.categoryLists),
+        smartLists: action.smartLists ?? [],
+        deletedTasks: Object.fromEntries((action.trash?.tasks ?? []).map(deleted => [deleted.task.id, deleted])),
+        deletedLists: Object.fromEntries((action.trash?.lists ?? []).map(deleted => [deleted.list.id, deleted])),
+      };
+
+    case 'IMPORT_CATEGORY_LISTS': {
+      // Trash entries for lists and tasks that are back in use are dropped; a dropped
+      // list's tasks stay in the Trash on their own
+      const imported = normalizeCategoryLists(action.categoryLists);
+      return {
+        ...state,
+        ...imported,
+        deletedTasks: Object.fromEntries(
+          Object.entries(state.deletedTasks).filter(([taskId]) => !imported.tasksById[taskId])
+        ),
+        deletedLists: Object.fromEntries(
+          Object.entries(state.deletedLists).filter(([listId]) => !imported.listsById[listId])
+        ),
+      };
+    }
+
+    case 'ADD_CATEGORY_LIST': {
+      const { tasks, ...list } = action.categoryList;
+      if (state.listsById[list.id]) return state;
+
+      const tasksById = { ...state.tasksById };
+      tasks.forEach(task => {
+        tasksById[task.id] = { ...task, listId: list.id };
+      });
+
+      return {
+        ...state,
+        tasksById,
+        listsById: { ...state.listsById, [list.id]: list },
+        listOrder: [...state.listOrder, list.id],
+        taskIdsByList: { ...state.taskIdsByList, [list.id]: tasks.map(task => task.id) },
+      };
+    }
+
+    case 'UPDATE_CATEGORY_LIST': {
+      const list = state.listsById[action.listId];
+      if (!list) return state;
+
+      return {
+        ...state,
+        listsById: { ...state.listsById, [action.listId]: { ...list, ...action.updates } },
+      };
+    }
+
+    case 'MOVE_CATEGORY_LIST': {
+      const { listId } = action;
+      const from = state.listOrder.indexOf(listId);
+      if (from === -1) return state;
+
+      // Position counts the other lists; out-of-range values clamp to the ends
+      const listOrder = state.listOrder.filter(id => id !== listId);
+      const position = Math.min(Math.max(action.position, 0), listOrder.length);
+      if (position === from) return state;
+      listOrder.splice(position, 0, listId);
+
+      return { ...state, listOrder };
+    }
+
+    case 'DELETE_CATEGORY_LIST': {
+      const { listId, now } = action;
+      const list = state.listsById[listId];
+      if (!list) return state;
+
+      // The list and its tasks go to the Trash together
+      const taskIds = state.taskIdsByList[listId] ?? [];
+      const tasksById = { ...state.tasksById };
+      const deletedTasks = { ...state.deletedTasks };
+      taskIds.forEach(taskId => {
+        deletedTasks[taskId] = { task: tasksById[taskId], list, deletedAt: now };
+        delete tasksById[taskId];
+      });
+
+      return {
+        ...state,
+        tasksById,
+        listsById: omitKey(state.listsById, listId),
+        listOrder: state.listOrder.filter(id => id !== listId),
+        taskIdsByList: omitKey(state.taskIdsByList, listId),
+        deletedTasks,
+        deletedLists: { ...state.deletedLists, [listId]: { list, taskIds, deletedAt: now } },
+        // Smart lists keep the list id in their filters: with its tasks gone it matches nothing,
+        // and restoring the list (or undoing) brings it back into them
+      };
+    }
+
+    case 'RESTORE_CATEGORY_LIST': {
+      const deleted = state.deletedLists[action.listId];
+      if (!deleted) return state;
+
+      const restored = recreateList(state, deleted.list);
+      const taskIds = deleted.taskIds.filter(taskId => state.deletedTasks[taskId]);
+      const tasksById = { ...restored.tasksById };
+      const deletedTasks = { ...restored.deletedTasks };
+      taskIds.forEach(taskId => {
+        tasksById[taskId] = deletedTasks[taskId].task;
+        delete deletedTasks[taskId];
+      });
+
+      return {
+        ...restored,
+        tasksById,
+        taskIdsByList: { ...restored.taskIdsByList, [action.listId]: taskIds },
+        deletedTasks,
+      };
+    }
+
+    case 'PURGE_DELETED_LIST': {
+      const deleted = state.deletedLists[action.listId];
+      if (!deleted) return state;
+
+      const deletedTasks = { ...state.deletedTasks };
+      deleted.taskIds.forEach(taskId => {
+        delete deletedTasks[taskId];
+      });
+      return { ...state, deletedTasks, deletedLists: omitKey(state.deletedLists, action.listId) };
+    }
+
+    case 'ADD_TASK': {
+      const { listId } = action.task;
+      if (!state.listsById[listId]) return state;
+
+      return {
+        ...state,
+        tasksById: { ...state.tasksById, [action.task.id]: action.task },
+        taskIdsByList: {
+          ...state.taskIdsByList,
+          [listId]: [...state.taskIdsByList[listId], action.task.id],
+        },
+      };
+    }
+
+    case 'TOGGLE_TASK_COMPLETION': {
+      const task = state.tasksById[action.taskId];
+      if (!task) return state;
+
+      return taskReducer(state, {
+        type: 'COMPLETE_TASKS',
+        taskIds: [task.id],
+        completed: !task.completed,
+        nextTaskIds: action.nextTaskId ? { [task.id]: action.nextTaskId } : undefined,
+        now: action.now,
+      });
+    }
+
+    case 'COMPLETE_TASKS': {
+      const tasksById = { ...state.tasksById };
+      const taskIdsByList = { ...state.taskIdsByList };
+      let changed = false;
+      let addedTasks = false;
+
+      action.taskIds.forEach(taskId => {
+        const task = tasksById[taskId];
+        if (!task || task.completed === action.completed) return;
+        changed = true;
+
+        // Completing a recurring task creates its next occurrence, once per occurrence
+        const nextTaskId = action.nextTaskIds?.[taskId];
+        const next = action.completed && !task.nextOccurrenceId && nextTaskId && state.listsById[task.listId]
+          ? createNextOccurrence(task, nextTaskId)
+          : null;
+
+        if (!next) {
+          tasksById[taskId] = touchTask(task, { completed: action.completed }, action.now);
+          return;
+        }
+
+        tasksById[taskId] = touchTask(task, { completed: action.completed, nextOccurrenceId: next.id }, action.now);
+        tasksById[next.id] = { ...next, createdAt: action.now, updatedAt: action.now, completedAt: undefined };
+        taskIdsByList[task.listId] = [...taskIdsByList[task.listId], next.id];
+        addedTasks = true;
+      });
+
+      if (!changed) return state;
+      return { ...state, tasksById, taskIdsByList: addedTasks ? taskIdsByList : state.taskIdsByList };
+    }
+
+    case 'UPDATE_TASK':
+      // A task's list only changes through MOVE_TASKS, which keeps taskIdsByList in sync
+      return patchTask(state, action.taskId, task => touchTask(task, { ...action.updates, listId: task.listId }, action.now));
+
+    case 'UPDATE_TASKS': {
+      const tasksById = { ...state.tasksById };
+      let changed = false;
+      action.taskIds.forEach(taskId => {
+        const task = tasksById[taskId];
+        if (task) {
+          tasksById[taskId] = touchTask(task, { ...action.updates, listId: task.listId }, action.now);
+          changed = true;
+        }
+      });
+      return changed ? { ...state, tasksById } : state;
+    }
+
+    case 'MOVE_TASKS': {
+      const { listId } = action;
+      if (!state.listsById[listId]) return state;
+
+      // Without a position, tasks already in the target list stay where they are
+      const movingIds = action.taskIds.filter(taskId => {
+        const task = state.tasksById[taskId];
+        return task && (task.listId !== listId || action.position !== undefined);
+      });
+      if (movingIds.length === 0) return state;
+
+      const tasksById = { ...state.tasksById };
+      const taskIdsByList = { ...state.taskIdsByList };
+
+      movingIds.forEach(taskId => {
+        const task = tasksById[taskId];
+        taskIdsByList[task.listId] = (taskIdsByList[task.listId] ?? []).filter(id => id !== taskId);
+        if (task.listId !== listId) {
+          tasksById[taskId] = touchTask(task, { listId }, action.now);
+        }
+      });
+
+      // Position counts the target list's remaining tasks; out-of-range values clamp to the ends
+      const targetIds = taskIdsByList[listId];
+      const position = Math.min(Math.max(action.position ?? targetIds.length, 0), targetIds.length);
+      taskIdsByList[listId] = [...targetIds.slice(0, position), ...movingIds, ...targetIds.slice(position)];
+
+      return { ...state, tasksById, taskIdsByList };
+    }
+
+    case 'RESCHEDULE_TASKS': {
+      const tasksById = { ...state.tasksById };
+      let changed = false;
+      action.taskIds.forEach(taskId => {
+        const task = tasksById[taskId];
+        if (task) {
+          tasksById[taskId] = touchTask(task, { dueDate: moveToDay(task.dueDate, action.date) }, action.now);
+          changed = true;
+        }
+      });
+      return changed ? { ...state, tasksById } : state;
+    }
+
+    case 'RENAME_TAG': {
+      const { from, to } = action;
+      if (!to || from === to) return state;
+
+      const tasksById = { ...state.tasksById };
+      let changed = false;
+      Object.values(state.tasksById).forEach(task => {
+        if (task.tags?.includes(from)) {
+          tasksById[task.id] = touchTask(task, { tags: replaceTag(task.tags, from, to) }, action.now);
+          changed = true;
+        }
+      });
+
+      // Smart lists filtering on the old tag follow the rename
+      const smartLists = state.smartLists.map(smartList =>
+        smartList.filter.tags?.includes(from)
+          ? { ...smartList, filter: { ...smartList.filter, tags: replaceTag(smartList.filter.tags, from, to) } }
+          : smartList
+      );
+      const smartListsChanged = smartLists.some((smartList, i) => smartList !== state.smartLists[i]);
+
+      if (!changed && !smartListsChanged) return state;
+      return {
+        ...state,
+        tasksById: changed ? tasksById : state.tasksById,
+        smartLists: smartListsChanged ? smartLists : state.smartLists,
+      };
+    }
+
+    case 'DELETE_TASK':
+      return taskReducer(state, { type: 'DELETE_TASKS', taskIds: [action.taskId], now: action.now });
+
+    case 'RESTORE_TASK': {
+      const deleted = state.deletedTasks[action.taskId];
+      if (!deleted) return state;
+      const { task } = deleted;
+
+      // The original list has since been deleted, so bring it back to restore into
+      const withList = state.listsById[task.listId] ? state : recreateList(state, deleted.list);
+
+      return {
+        ...withList,
+        tasksById: { ...withList.tasksById, [task.id]: task },
+        taskIdsByList: {
+          ...withList.taskIdsByList,
+          [task.listId]: [...withList.taskIdsByList[task.listId], task.id],
+        },
+        deletedTasks: omitKey(withList.deletedTasks, task.id),
+      };
+    }
+
+    case 'DELETE_TASKS': {
+      const tasksById = { ...state.tasksById };
+      const taskIdsByList = { ...state.taskIdsByList };
+      const deletedTasks = { ...state.deletedTasks };
+      let changed = false;
+
+      action.taskIds.forEach(taskId => {
+        const task = tasksById[taskId];
+        if (!task) return;
+        delete tasksById[taskId];
+        taskIdsByList[task.listId] = (taskIdsByList[task.listId] ?? []).filter(id => id !== taskId);
+        deletedTasks[taskId] = { task, list: state.listsById[task.listId], deletedAt: action.now };
+        changed = true;
+      });
+
+      return changed ? { ...state, tasksById, taskIdsByList, deletedTasks } : state;
+    }
+
+    case 'APPLY_CHANGES': {
+      const { changes } = action;
+      const tasksById = { ...state.tasksById };
+      const listsById = { ...state.listsById };
+      const taskIdsByList = { ...state.taskIdsByList };
+      const deletedTasks = { ...state.deletedTasks };
+      const deletedLists = { ...state.deletedLists };
+      let listOrder = state.listOrder;
+
+      const detach = (taskId: string) => {
+        const task = tasksById[taskId];
+        if (task && taskIdsByList[task.listId]) {
+          taskIdsByList[task.listId] = taskIdsByList[task.listId].filter(id => id !== taskId);
+        }
+      };
+      const insertAt = (ids: string[], id: string, position: number) =>
+        [...ids.slice(0, Math.max(position, 0)), id, ...ids.slice(Math.max(position, 0))];
+
+      changes.removeTaskIds.forEach(taskId => {
+        detach(taskId);
+        delete tasksById[taskId];
+      });
+
+      changes.removeListIds.forEach(listId => {
+        delete listsById[listId];
+        delete taskIdsByList[listId];
+        listOrder = listOrder.filter(id => id !== listId);
+      });
+
+      // Inserting in ascending position puts each item exactly where it belongs,
+      // since everything before it is already in place
+      [...changes.lists]
+        .sort((a, b) => a.position - b.position)
+        .forEach(({ list, position }) => {
+          listsById[list.id] = list;
+          taskIdsByList[list.id] = taskIdsByList[list.id] ?? [];
+          listOrder = insertAt(listOrder.filter(id => id !== list.id), list.id, position);
+        });
+
+      changes.tasks.forEach(({ task }) => {
+        detach(task.id);
+        delete tasksById[task.id];
+      });
+
+      [...changes.tasks]
+        .sort((a, b) => a.position - b.position)
+        .forEach(({ task, position }) => {
+          // Tasks whose list has since been deleted cannot be put back
+          if (!listsById[task.listId]) return;
+          tasksById[task.id] = task;
+          taskIdsByList[task.listId] = insertAt(taskIdsByList[task.listId], task.id, position);
+        });
+
+      changes.removeTrashListIds.forEach(listId => delete deletedLists[listId]);
+      changes.removeTrashTaskIds.forEach(taskId => delete deletedTasks[taskId]);
+      changes.trashLists.forEach(deleted => {
+        deletedLists[deleted.list.id] = deleted;
+      });
+      changes.trashTasks.forEach(deleted => {
+        deletedTasks[deleted.task.id] = deleted;
+      });
+
+      return { ...state, tasksById, listsById, listOrder, taskIdsByList, deletedTasks, deletedLists };
+    }
+
+    case 'PURGE_DELETED_TASK':
+      if (!state.deletedTasks[action.taskId]) return state;
+      return { ...state, deletedTasks: omitKey(state.deletedTasks, action.taskId) };
+
+    case 'EMPTY_TRASH': {
+      // Without a cutoff everything goes; lists take the tasks deleted with them along
+      const { before } = action;
+      const expired = (deletedAt: Date) => !before || deletedAt < before;
+      const deletedLists = Object.fromEntries(
+        Object.entries(state.deletedLists).filter(([, deleted]) => !expired(deleted.deletedAt))
+      );
+      const deletedTasks = Object.fromEntries(
+        Object.entries(state.deletedTasks).filter(([, deleted]) => !expired(deleted.deletedAt))
+      );
+
+      const changed = Object.keys(deletedLists).length !== Object.keys(state.deletedLists).length ||
+        Object.keys(deletedTasks).length !== Object.keys(state.deletedTasks).length;
+      return changed ? { ...state, deletedTasks, deletedLists } : state;
+    }
+
+    case 'ADD_SMART_LIST':
+      if (state.smartLists.some(smartList => smartList.id === action.smartList.id)) return state;
+      return { ...state, smartLists: [...state.smartLists, action.smartList] };
+
+    case 'UPDATE_SMART_LIST':
+      if (!state.smartLists.some(smartList => smartList.id === action.smartListId)) return state;
+      return {
+        ...state,
+        smartLists: state.smartLists.map(smartList =>
+          smartList.id === action.smartListId ? { ...smartList, ...action.updates } : smartList
+        ),
+      };
+
+    case 'DELETE_SMART_LIST':
+      if (!state.smartLists.some(smartList => smartList.id === action.smartListId)) return state;
+      return { ...state, smartLists: state.smartLists.filter(smartList => smartList.id !== action.smartListId) };
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * @fileoverview Selectors deriving view data from the normalized task state
+ * Rebuilds the nested `CategoryList[]` shape used by screens and caches results
+ * so unchanged state never triggers recomputation
+ */
+
+import {
+  CategoryList,
+  DayTaskGroup,
+  DeletedList,
+  DeletedTask,
+  ListRecord,
+  NormalizedTaskData,
+  SmartList,
+  TagCount,
+  Task,
+  TaskState,
+  TrashItem,
+  TrashSnapshot
+} from '@/src/types';
+import { compareTasksByDueTime, startOfDay } from '@/src/utils';
+import { buildSearchIndex, SearchIndexEntry } from '@/src/utils/search';
+import { countTags } from '@/src/utils/tags';
+import { filterTasks } from '@/src/utils/taskFilter';
+
+/**
+ * Wraps a function so it recomputes only when one of its arguments changes (by reference)
+ */
+const memoizeLast = <A extends unknown[], R>(fn: (...args: A) => R): ((...args: A) => R) => {
+  let lastArgs: A | null = null;
+  let lastResult: R;
+  return (...args: A) => {
+    if (lastArgs && args.length === lastArgs.length && args.every((arg, i) => arg === lastArgs![i])) {
+      return lastResult;
+    }
+    lastArgs = args;
+    lastResult = fn(...args);
+    return lastResult;
+  };
+};
+
+/**
+ * Converts nested category lists into normalized lookup tables
+ * 
+ * @param categoryLists - Lists with embedded tasks
+ * @returns Normalized task data
+ * 
+ * @example
+ * const { tasksById, listOrder } = normalizeCategoryLists(storedLists);
+ */
+export const normalizeCategoryLists = (categoryLists: CategoryList[]): NormalizedTaskData => {
+  const data: NormalizedTaskData = {
+    tasksById: {},
+    listsById: {},
+    listOrder: [],
+    taskIdsByList: {},
+  };
+
+  categoryLists.forEach(({ tasks, ...list }) => {
+    if (!data.listsById[list.id]) {
+      data.listsById[list.id] = list;
+      data.listOrder.push(list.id);
+      data.taskIdsByList[list.id] = [];
+    }
+    tasks.forEach(task => {
+      data.tasksById[task.id] = { ...task, listId: list.id };
+      data.taskIdsByList[list.id].push(task.id);
+    });
+  });
+
+  return data;
+};
+
+/**
+ * Cache of rebuilt lists so lists whose tasks did not change keep their identity
+ */
+const listCache = new WeakMap<ListRecord, { taskIds: string[]; tasks: Task[]; result: CategoryList }>();
+
+const buildCategoryLists = (
+  listOrder: string[],
+  listsById: Record<string, ListRecord>,
+  taskIdsByList: Record<string, string[]>,
+  tasksById: Record<string, Task>
+): CategoryList[] =>
+  listOrder.map(listId => {
+    const list = listsById[listId];
+    const taskIds = taskIdsByList[listId] ?? [];
+    const tasks = taskIds.map(taskId => tasksById[taskId]).filter(Boolean);
+
+    const cached = listCache.get(list);
+    if (
+      cached &&
+      cached.taskIds === taskIds &&
+      cached.tasks.length === tasks.length &&
+      cached.tasks.every((task, i) => task === tasks[i])
+    ) {
+      return cached.result;
+    }
+
+    const result = { ...list, tasks };
+    listCache.set(list, { taskIds, tasks, result });
+    return result;
+  });
+
+const memoizedCategoryLists = memoizeLast(buildCategoryLists);
+
+/**
+ * Rebuilds the nested category list shape from normalized state
+ * 
+ * @param state - Current task state
+ * @returns Lists in display order with their tasks embedded
+ */
+export const selectCategoryLists = (state: TaskState): CategoryList[] =>
+  memoizedCategoryLists(state.listOrder, state.listsById, state.taskIdsByList, state.tasksById);
+
+/**
+ * Looks up a single task in constant time
+ * 
+ * @param state - Current task state
+ * @param taskId - Unique identifier of the task
+ * @returns The task, or undefined if it does not exist
+ */
+export const selectTaskById = (state: TaskState, taskId: string): Task | undefined =>
+  state.tasksById[taskId];
+
+const memoizedTasksByDay = memoizeLast(
+  (tasksById: Record<string, Task>): Map<string, Task[]> => {
+    const tasksByDay = new Map<string, Task[]>();
+    Object.values(tasksById).forEach(task => {
+      const day = task.dueDate.toDateString();
+      const dayTasks = tasksByDay.get(day);
+      if (dayTasks) {
+        dayTasks.push(task);
+      } else {
+        tasksByDay.set(day, [task]);
+      }
+    });
+    return tasksByDay;
+  }
+);
+
+const NO_TASKS: Task[] = [];
+
+/**
+ * Indexes every task by the calendar day it is due, rebuilt only when tasks change
+ * 
+ * @param state - Current task state
+ * @returns Map from `Date.toDateString()` to the tasks due that day
+ */
+export const selectTasksByDay = (state: TaskState): Map<string, Task[]> =>
+  memoizedTasksByDay(state.tasksById);
+
+/**
+ * Retrieves tasks due on the same calendar day as `date`.
+ * The result keeps its identity until tasks change.
+ * 
+ * @param state - Current task state
+ * @param date - Any time on the day
+ * @returns Tasks due that day
+ */
+export const selectTasksDueOn = (state: TaskState, date: Date): Task[] =>
+  selectTasksByDay(state).get(date.toDateString()) ?? NO_TASKS;
+
+/**
+ * Retrieves tasks due on the same calendar day as `now`, recomputed only
+ * when tasks change
+ * 
+ * @param state - Current task state
+ * @param now - Reference date (defaults to the current time)
+ * @returns Tasks due today
+ */
+export const selectTasksDueToday = (state: TaskState, now: Date = new Date()): Task[] =>
+  selectTasksDueOn(state, now);
+
+const memoizedOverdueTasks = memoizeLast(
+  (tasksById: Record<string, Task>, dateString: string): Task[] => {
+    const today = new Date(dateString).getTime();
+    return Object.values(tasksById)
+      .filter(task => !task.completed && task.dueDate.getTime() < today)
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+);
+
+/**
+ * Retrieves incomplete tasks due before the calendar day of `now`, oldest first,
+ * recomputed only when tasks change or the day rolls over
+ * 
+ * Tasks due earlier today are not included; they stay with today's tasks.
+ * 
+ * @param state - Current task state
+ * @param now - Reference date (defaults to the current time)
+ * @returns Overdue tasks
+ */
+export const selectOverdueTasks = (state: TaskState, now: Date = new Date()): Task[] =>
+  memoizedOverdueTasks(state.tasksById, startOfDay(now).toISOString());
+
+const PRIORITY_ORDER = { '!!!': 0, '!!': 1, '!': 2 };
+
+const memoizedUpcomingGroups = memoizeLast(
+  (tasksById: Record<string, Task>, startDateString: string, days: number): DayTaskGroup[] => {
+    const start = new Date(startDateString);
+    const groups: DayTaskGroup[] = [];
+    const groupsByDay = new Map<string, DayTaskGroup>();
+
+    for (let i = 0; i < days; i++) {
+      const group = { date: new Date(start.getFullYear(), start.getMonth(), start.getDate() + i), tasks: [] };
+      groups.push(group);
+      groupsByDay.set(group.date.toDateString(), group);
+    }
+
+    Object.values(tasksById).forEach(task => {
+      if (!task.completed) {
+        groupsByDay.get(task.dueDate.toDateString())?.tasks.push(task);
+      }
+    });
+
+    groups.forEach(group => group.tasks.sort((a, b) =>
+      compareTasksByDueTime(a, b) ||
+      (a.priority ? PRIORITY_ORDER[a.priority] : 3) - (b.priority ? PRIORITY_ORDER[b.priority] : 3)
+    ));
+    return groups;
+  }
+);
+
+/**
+ * Groups incomplete tasks by due day for the `days` days starting with the day of `now`.
+ * Every day gets a group, even when nothing is due, so empty days can be shown and targeted.
+ * 
+ * @param state - Current task state
+ * @param days - Number of days to include (e.g. 7 or 30)
+ * @param now - Reference date (defaults to the current time)
+ * @returns One group per day, each sorted by due time then priority
+ */
+export const selectUpcomingTaskGroups = (state: TaskState, days: number, now: Date = new Date()): DayTaskGroup[] =>
+  memoizedUpcomingGroups(state.tasksById, startOfDay(now).toISOString(), days);
+
+const memoizedSearchIndex = memoizeLast(
+  (tasksById: Record<string, Task>): SearchIndexEntry[] => buildSearchIndex(Object.values(tasksById))
+);
+
+/**
+ * Retrieves the full-text search index over all tasks, rebuilt only when tasks
+ * change (and then only re-indexing the tasks that changed)
+ * 
+ * @param state - Current task state
+ * @returns One search entry per task
+ */
+export const selectSearchIndex = (state: TaskState): SearchIndexEntry[] =>
+  memoizedSearchIndex(state.tasksById);
+
+/**
+ * Cache of smart list results; a result is reused until tasks change, the day
+ * rolls over or the smart list itself is edited (which replaces the object)
+ */
+const smartListCache = new WeakMap<SmartList, { tasksById: Record<string, Task>; dateString: string; result: Task[] }>();
+
+/**
+ * Retrieves the tasks currently matching a smart list's filter, ordered by due date
+ * 
+ * @param state - Current task state
+ * @param smartListId - Unique identifier of the smart list
+ * @param now - Reference date for relative due ranges (defaults to the current time)
+ * @returns Matching tasks (empty if the smart list does not exist)
+ */
+export const selectSmartListTasks = (state: TaskState, smartListId: string, now: Date = new Date()): Task[] => {
+  const smartList = state.smartLists.find(({ id }) => id === smartListId);
+  if (!smartList) return NO_TASKS;
+
+  const dateString = startOfDay(now).toISOString();
+  const cached = smartListCache.get(smartList);
+  if (cached && cached.tasksById === state.tasksById && cached.dateString === dateString) {
+    return cached.result;
+  }
+
+  const result = filterTasks(Object.values(state.tasksById), smartList.filter, now)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  smartListCache.set(smartList, { tasksById: state.tasksById, dateString, result });
+  return result;
+};
+
+const memoizedTagCounts = memoizeLast(
+  (tasksById: Record<string, Task>): TagCount[] => countTags(Object.values(tasksById))
+);
+
+/**
+ * Retrieves every tag in use with its task count, recomputed only when tasks change
+ * 
+ * @param state - Current task state
+ * @returns Tags sorted alphabetically
+ */
+export const selectTagCounts = (state: TaskState): TagCount[] =>
+  memoizedTagCounts(state.tasksById);
+
+// Tasks per tag for each tasks object, so screens showing several tags reuse every result
+const tagCache = new WeakMap<Record<string, Task>, Map<string, Task[]>>();
+
+/**
+ * Retrieves the tasks carrying a tag, ordered by due date, recomputed only when tasks change
+ * 
+ * @param state - Current task state
+ * @param tag - Normalized tag name
+ * @returns Tasks with the tag
+ */
+export const selectTasksWithTag = (state: TaskState, tag: string): Task[] => {
+  let tasksByTag = tagCache.get(state.tasksById);
+  if (!tasksByTag) {
+    tasksByTag = new Map();
+    tagCache.set(state.tasksById, tasksByTag);
+  }
+
+  let result = tasksByTag.get(tag);
+  if (!result) {
+    result = Object.values(state.tasksById)
+      .filter(task => task.tags?.includes(tag))
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+    tasksByTag.set(tag, result);
+  }
+  return result;
+};
+
+const memoizedTrash = memoizeLast(
+  (deletedTasks: Record<string, DeletedTask>, deletedLists: Record<string, DeletedList>): TrashItem[] => {
+    const listItems = Object.values(deletedLists).map(({ list, taskIds, deletedAt }): TrashItem => ({
+      kind: 'list',
+      list,
+      tasks: taskIds.flatMap(taskId => deletedTasks[taskId]?.task ?? []),
+      deletedAt,
+    }));
+
+    // Tasks deleted along with a list are shown under that list
+    const inDeletedList = new Set(Object.values(deletedLists).flatMap(({ taskIds }) => taskIds));
+    const taskItems = Object.values(deletedTasks)
+      .filter(({ task }) => !inDeletedList.has(task.id))
+      .map(({ task, list, deletedAt }): TrashItem => ({ kind: 'task', task, list, deletedAt }));
+
+    return [...listItems, ...taskItems].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+);
+
+/**
+ * Retrieves the contents of the Trash, recomputed only when it changes
+ * 
+ * @param state - Current task state
+ * @returns Deleted lists (with their tasks) and tasks deleted on their own, most recent first
+ */
+export const selectTrash = (state: TaskState): TrashItem[] =>
+  memoizedTrash(state.deletedTasks, state.deletedLists);
+
+const memoizedTrashSnapshot = memoizeLast(
+  (deletedTasks: Record<string, DeletedTask>, deletedLists: Record<string, DeletedList>): TrashSnapshot => ({
+    lists: Object.values(deletedLists),
+    tasks: Object.values(deletedTasks),
+  })
+);
+
+/**
+ * Retrieves the Trash in the shape persisted by a TaskRepository.
+ * The result keeps its identity until the Trash changes.
+ * 
+ * @param state - Current task state
+ * @returns Deleted lists and tasks
+ */
+export const selectTrashSnapshot = (state: TaskState): TrashSnapshot =>
+  memoizedTrashSnapshot(state.deletedTasks, state.deletedLists);
@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Custom hook for dragging an item onto one of several drop targets
+ * inside a scrolling list (e.g. rescheduling a task onto another day)
+ */
+
+import * as Haptics from 'expo-haptics';
+import { useRef, useState } from 'react';
+import { Animated, FlatList, GestureResponderEvent, NativeScrollEvent, NativeSyntheticEvent, Platform, ScrollView, View } from 'react-native';
+
+/** Distance from the container's top/bottom edge that starts auto-scrolling */
+const AUTO_SCROLL_EDGE = 60;
+/** Pixels scrolled per move event while auto-scrolling */
+const AUTO_SCROLL_STEP = 12;
+/** Vertical offset of the drag preview above the finger */
+const PREVIEW_OFFSET = 30;
+
+interface TargetLayout {
+  y: number;
+  height: number;
+}
+
+interface UseDragAndDropOptions<T> {
+  /** Called when an item is released over a drop target */
+  onDrop: (item: T, targetKey: string) => void;
+}
+
+/**
+ * Custom hook implementing long-press-and-drag onto keyed drop targets
+ *
+ * Start a drag from a long press with `startDrag`; while the finger stays down,
+ * the container captures the gesture, a preview follows the finger, the list
+ * auto-scrolls near its edges and the target under the finger is reported as
+ * `hoverKey`. Releasing drops the item on that target.
+ *
+ * @param options - Drop callback
+ * @returns Drag state plus props for the container, the scroll view and each target
+ *
+ * @example
+ * const drag = useDragAndDrop<Task>({ onDrop: (task, day) => rescheduleTasks([task.id], new Date(day)) });
+ *
+ * <View {...drag.containerProps}>
+ *   <ScrollView {...drag.scrollProps}>
+ *     <View ref={drag.registerTarget(dayKey)}>...</View>
+ *   </ScrollView>
+ *   {drag.draggingItem && <Animated.View style={drag.previewStyle}>...</Animated.View>}
+ * </View>
+ */
+export function useDragAndDrop<T>({ onDrop }: UseDragAndDropOptions<T>) {
+  const [draggingItem, setDraggingItem] = useState<T | null>(null);
+  const [hoverKey, setHoverKey] = useState<string | null>(null);
+
+  // Preview position, relative to the container
+  const previewY = useRef(new Animated.Value(0)).current;
+
+  // Refs read from gesture handlers, which must not wait for a re-render
+  const draggingRef = useRef<T | null>(null);
+  const hoverKeyRef = useRef<string | null>(null);
+  const containerRef = useRef<View>(null);
+  const scrollRef = useRef<ScrollView & FlatList<any>>(null);
+  const targetRefs = useRef(new Map<string, View>()).current;
+  const targetLayouts = useRef(new Map<string, TargetLayout>()).current;
+  const container = useRef({ top: 0, height: 0 });
+  const scrollY = useRef(0);
+  const scrollYAtStart = useRef(0);
+
+  const setHover = (key: string | null) => {
+    if (hoverKeyRef.current !== key) {
+      hoverKeyRef.current = key;
+      setHoverKey(key);
+    }
+  };
+
+  /**
+   * Finds the target under a window y coordinate, allowing for scrolling since the drag started.
+   * Targets may be nested (e.g. rows inside a section); the innermost one wins.
+   */
+  const findTarget = (pageY: number): string | null => {
+    const contentY = pageY + (scrollY.current - scrollYAtStart.current);
+    let found: string | null = null;
+    let foundHeight = Infinity;
+    for (const [key, layout] of targetLayouts) {
+      if (contentY >= layout.y && contentY < layout.y + layout.height && layout.height < foundHeight) {
+        found = key;
+        foundHeight = layout.height;
+      }
+    }
+    return found;
+  };
+
+  /**
+   * Picks up an item; call from a long press while the finger is still down
+   * @param item - Item being dragged
+   * @param pageY - Window y coordinate of the press, if known
+   */
+  const startDrag = (item: T, pageY?: number) => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+
+    draggingRef.current = item;
+    setDraggingItem(item);
+    scrollYAtStart.current = scrollY.current;
+
+    // Snapshot on-screen positions; scrolling during the drag is compensated for in findTarget
+    targetLayouts.clear();
+    targetRefs.forEach((view, key) => {
+      view.measureInWindow((_x, y, _width, height) => {
+        targetLayouts.set(key, { y, height });
+        if (pageY !== undefined && key === findTarget(pageY)) setHover(key);
+      });
+    });
+    containerRef.current?.measureInWindow((_x, y, _width, height) => {
+      container.current = { top: y, height };
+      if (pageY !== undefined) previewY.setValue(pageY - y - PREVIEW_OFFSET);
+    });
+  };
+
+  const endDrag = (drop: boolean) => {
+    const item = draggingRef.current;
+    const key = hoverKeyRef.current;
+    draggingRef.current = null;
+    setDraggingItem(null);
+    setHover(null);
+    if (drop && item !== null && key !== null) {
+      onDrop(item, key);
+    }
+  };
+
+  const handleMove = (event: GestureResponderEvent) => {
+    const { pageY } = event.nativeEvent;
+    const { top, height } = container.current;
+    previewY.setValue(pageY - top - PREVIEW_OFFSET);
+    setHover(findTarget(pageY));
+
+    // Auto-scroll while the finger is near the top or bottom edge
+    let delta = 0;
+    if (pageY < top + AUTO_SCROLL_EDGE) delta = -AUTO_SCROLL_STEP;
+    if (pageY > top + height - AUTO_SCROLL_EDGE) delta = AUTO_SCROLL_STEP;
+    const list = scrollRef.current;
+    if (delta !== 0 && list) {
+      const offset = Math.max(0, scrollY.current + delta);
+      if (typeof list.scrollToOffset === 'function') {
+        list.scrollToOffset({ offset, animated: false });
+      } else {
+        list.scrollTo({ y: offset, animated: false });
+      }
+    }
+  };
+
+  /**
+   * Returns a ref callback registering a view as the drop target for `key`
+   */
+  const registerTarget = (key: string) => (view: View | null) => {
+    if (view) {
+      targetRefs.set(key, view);
+    } else {
+      targetRefs.delete(key);
+    }
+  };
+
+  return {
+    /** Item currently being dragged, or null */
+    draggingItem,
+    /** Key of the drop target under the finger, or null */
+    hoverKey,
+    startDrag,
+    registerTarget,
+    /** Props for the view wrapping the scroll view; it takes over touches while dragging */
+    containerProps: {
+      ref: containerRef,
+      onStartShouldSetResponderCapture: () => draggingRef.current !== null,
+      onMoveShouldSetResponderCapture: () => draggingRef.current !== null,
+      onResponderTerminationRequest: () => false,
+      onResponderMove: handleMove,
+      onResponderRelease: () => endDrag(true),
+      onResponderTerminate: () => endDrag(false),
+      // A long press released without moving never reaches the container's responder
+      onTouchEnd: () => draggingRef.current !== null && endDrag(true),
+    },
+    /** Props for the scroll view (ScrollView or FlatList) holding the targets */
+    scrollProps: {
+      ref: scrollRef,
+      scrollEnabled: draggingItem === null,
+      scrollEventThrottle: 16,
+      onScroll: (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        scrollY.current = event.nativeEvent.contentOffset.y;
+      },
+    },
+    /** Style positioning the drag preview under the finger */
+    previewStyle: {
+      position: 'absolute' as const,
+      left: 0,
+      right: 0,
+      top: 0,
+      transform: [{ translateY: previewY }],
+    },
+  };
+}
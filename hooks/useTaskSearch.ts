@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Custom hook for debounced full-text task search with filters
+ */
+
+import { useMemo, useState } from 'react';
+
+import { useTaskContext } from '@/contexts/TaskContext';
+import { TaskSearchFilters, TaskSearchResult } from '@/src/types';
+import { debounce } from '@/src/utils';
+import { DEFAULT_SEARCH_FILTERS } from '@/src/utils/search';
+
+/** Delay after the last keystroke before the query runs */
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Custom hook holding search input state and the matching tasks
+ *
+ * The input updates on every keystroke while the query itself runs once typing
+ * pauses, so large task sets are not re-scanned per character.
+ *
+ * @param delay - Debounce delay in milliseconds
+ * @returns Query text, filters, results and their setters
+ *
+ * @example
+ * const search = useTaskSearch();
+ * <TextInput value={search.query} onChangeText={search.setQuery} />
+ * search.results.map(({ task }) => ...)
+ */
+export function useTaskSearch(delay: number = SEARCH_DEBOUNCE_MS) {
+  const { searchTasks } = useTaskContext();
+  const [query, setQueryText] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<TaskSearchFilters>(DEFAULT_SEARCH_FILTERS);
+
+  const updateDebouncedQuery = useMemo(() => debounce(setDebouncedQuery, delay), [delay]);
+
+  // searchTasks keeps its identity until tasks change, so results are recomputed only after edits
+  const results: TaskSearchResult[] = useMemo(
+    () => searchTasks(debouncedQuery, filters),
+    [searchTasks, debouncedQuery, filters]
+  );
+
+  /**
+   * Updates the input text and schedules the query
+   */
+  const setQuery = (text: string) => {
+    setQueryText(text);
+    updateDebouncedQuery(text);
+  };
+
+  /**
+   * Clears the query immediately, keeping the filters
+   */
+  const clear = () => {
+    setQueryText('');
+    setDebouncedQuery('');
+    updateDebouncedQuery('');
+  };
+
+  return {
+    /** Text currently in the search input */
+    query,
+    setQuery,
+    /** Query the results were computed for */
+    debouncedQuery,
+    filters,
+    setFilters,
+    results,
+    /** Whether the input has any text */
+    isSearching: query.trim().length > 0,
+    clear,
+  };
+}
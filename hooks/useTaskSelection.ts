@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Custom hook for multi-select mode on task lists
+ */
+
+import * as Haptics from 'expo-haptics';
+import { useState } from 'react';
+import { Platform } from 'react-native';
+
+/**
+ * Custom hook holding the set of selected task ids
+ *
+ * Selection mode is active while at least one task is selected: a long press
+ * selects the first task, taps then add or remove tasks, and clearing (or
+ * deselecting the last task) leaves the mode.
+ *
+ * @returns Selected ids and functions to change them
+ *
+ * @example
+ * const selection = useTaskSelection();
+ * <TaskGestureHandler
+ *   selectionMode={selection.isSelecting}
+ *   isSelected={selection.isSelected(task.id)}
+ *   onToggleSelection={(task) => selection.toggle(task.id)}
+ *   onLongPress={(task) => selection.begin(task.id)}
+ * />
+ */
+export function useTaskSelection() {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  /**
+   * Enters selection mode with a task selected (from a long press)
+   *
+   * @param taskId - Task that was long-pressed
+   */
+  const begin = (taskId: string) => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    setSelectedIds(prev => (prev.includes(taskId) ? prev : [...prev, taskId]));
+  };
+
+  /**
+   * Adds a task to the selection, or removes it if already selected
+   *
+   * @param taskId - Task that was tapped
+   */
+  const toggle = (taskId: string) => {
+    setSelectedIds(prev => (prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]));
+  };
+
+  const isSelected = (taskId: string) => selectedIds.includes(taskId);
+
+  const clear = () => setSelectedIds([]);
+
+  return {
+    selectedIds,
+    isSelecting: selectedIds.length > 0,
+    isSelected,
+    begin,
+    toggle,
+    clear,
+  };
+}
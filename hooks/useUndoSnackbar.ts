@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Custom hook driving the undo snackbar from the task history
+ */
+
+import { useCallback, useState } from 'react';
+import { LayoutAnimation } from 'react-native';
+
+import { useTaskContext } from '@/contexts/TaskContext';
+
+/**
+ * Custom hook for the snackbar offering to undo the latest change
+ *
+ * The message is the label of the step undo would revert, so it always matches
+ * what the action does. After UNDO the snackbar offers REDO for the same step.
+ * Tasks deleted in quick succession are counted in one message ("3 tasks deleted")
+ * with UNDO ALL restoring every one of them.
+ *
+ * @returns `show` to call after a change, and props for the Snackbar
+ *
+ * @example
+ * const undoSnackbar = useUndoSnackbar();
+ * deleteTask(task.id);
+ * undoSnackbar.show();
+ * <Snackbar {...undoSnackbar.snackbarProps} />
+ */
+export function useUndoSnackbar() {
+  const { undo, redo, undoLabel, redoLabel, pendingDeletions } = useTaskContext();
+  const [mode, setMode] = useState<'undo' | 'redo' | null>(null);
+
+  /**
+   * Shows the snackbar for the change just made
+   */
+  const show = useCallback(() => setMode('undo'), []);
+
+  /**
+   * Hides the snackbar (also passed as its onDismiss, so it must keep its identity)
+   */
+  const hide = useCallback(() => setMode(null), []);
+
+  const handleUndo = () => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    setMode(undo() ? 'redo' : null);
+  };
+
+  const handleRedo = () => {
+    LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
+    redo();
+    setMode(null);
+  };
+
+  const label = mode === 'redo' ? redoLabel : undoLabel;
+
+  return {
+    show,
+    hide,
+    snackbarProps: {
+      visible: mode !== null && label !== null,
+      message: mode === 'redo' ? `Undone: ${label}` : label ?? '',
+      actionText: mode === 'redo' ? 'REDO' : pendingDeletions.length > 1 ? 'UNDO ALL' : 'UNDO',
+      onAction: mode === 'redo' ? handleRedo : handleUndo,
+      onDismiss: hide,
+    },
+  };
+}
@@ -54,7 +54,8 @@ export function Snackbar({
 
   /**
    * Handle visibility changes and animations
-   * Shows snackbar with fade in animation and sets auto-dismiss timer
+   * Shows snackbar with fade in animation and sets auto-dismiss timer.
+   * A new message while visible (e.g. another deletion) restarts the timer.
    */
   useEffect(() => {
     if (visible) {
@@ -91,7 +92,7 @@ export function Snackbar({
         setIsVisible(false);
       });
     }
-  }, [visible, duration, fadeAnim, onDismiss, isVisible]);
+  }, [visible, message, duration, fadeAnim, onDismiss, isVisible]);
 
   /**
    * Handles action button press
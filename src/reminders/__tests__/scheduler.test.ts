@@ -0,0 +1,167 @@
+import {
+  computePendingReminders,
+  diffReminders,
+  getReminderFireDate,
+  MAX_PENDING_REMINDERS,
+  ReminderScheduler
+} from '@/src/reminders/scheduler';
+import { CategoryList, ReminderDelivery, ReminderOffset, ScheduledReminder, Task } from '@/src/types';
+
+// Fake clock: every test runs at 8:00 on March 1, 2024 (local time)
+const NOW = new Date(2024, 2, 1, 8, 0);
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Submit report',
+  listId: 'list-1',
+  completed: false,
+  dueDate: new Date(2024, 2, 5, 14, 30),
+  hasDueTime: true,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+const makeLists = (tasks: Task[]): CategoryList[] => [
+  { id: 'list-1', category: 'Work', color: '#007AFF', icon: 'briefcase.fill', tasks },
+];
+
+const toMap = (reminders: ScheduledReminder[]) => new Map(reminders.map(reminder => [reminder.id, reminder]));
+
+describe('getReminderFireDate', () => {
+  const task = makeTask();
+
+  it('fires at the due time', () => {
+    expect(getReminderFireDate(task, { type: 'beforeDue', minutes: 0 })).toEqual(new Date(2024, 2, 5, 14, 30));
+  });
+
+  it('fires 15 minutes before the due time', () => {
+    expect(getReminderFireDate(task, { type: 'beforeDue', minutes: 15 })).toEqual(new Date(2024, 2, 5, 14, 15));
+  });
+
+  it('fires the day before at 9am', () => {
+    expect(getReminderFireDate(task, { type: 'dayBefore', hour: 9, minute: 0 })).toEqual(new Date(2024, 2, 4, 9, 0));
+  });
+
+  it('fires at a custom offset', () => {
+    expect(getReminderFireDate(task, { type: 'beforeDue', minutes: 90 })).toEqual(new Date(2024, 2, 5, 13, 0));
+  });
+
+  it('treats all-day tasks as due at 9am', () => {
+    const allDay = makeTask({ dueDate: new Date(2024, 2, 5), hasDueTime: false });
+    expect(getReminderFireDate(allDay, { type: 'beforeDue', minutes: 15 })).toEqual(new Date(2024, 2, 5, 8, 45));
+  });
+});
+
+describe('computePendingReminders', () => {
+  it('returns one reminder per distinct offset, soonest first', () => {
+    const reminders: ReminderOffset[] = [
+      { type: 'beforeDue', minutes: 0 },
+      { type: 'dayBefore', hour: 9, minute: 0 },
+      { type: 'beforeDue', minutes: 15 },
+      { type: 'beforeDue', minutes: 15 },
+    ];
+    const pending = computePendingReminders(makeLists([makeTask({ reminders })]), NOW);
+
+    expect(pending.map(reminder => reminder.id)).toEqual(['task-1:daybefore-9:0', 'task-1:before-15', 'task-1:before-0']);
+  });
+
+  it('leaves out completed tasks and reminders that have already fired', () => {
+    const tasks = [
+      makeTask({ id: 'done', completed: true, reminders: [{ type: 'beforeDue', minutes: 0 }] }),
+      makeTask({ id: 'past', dueDate: new Date(2024, 2, 1, 8, 10), reminders: [{ type: 'beforeDue', minutes: 15 }] }),
+      makeTask({ id: 'now', dueDate: NOW, reminders: [{ type: 'beforeDue', minutes: 0 }] }),
+    ];
+
+    expect(computePendingReminders(makeLists(tasks), NOW)).toEqual([]);
+  });
+
+  it(`schedules at most ${MAX_PENDING_REMINDERS} reminders, keeping the soonest`, () => {
+    const tasks = Array.from({ length: MAX_PENDING_REMINDERS + 10 }, (_, index) =>
+      makeTask({
+        id: `task-${index}`,
+        dueDate: new Date(2024, 2, 2, 0, MAX_PENDING_REMINDERS + 10 - index),
+        reminders: [{ type: 'beforeDue', minutes: 0 }],
+      })
+    );
+    const pending = computePendingReminders(makeLists(tasks), NOW);
+
+    expect(pending).toHaveLength(MAX_PENDING_REMINDERS);
+    expect(pending[0].taskId).toBe(`task-${MAX_PENDING_REMINDERS + 9}`);
+    expect(pending.some(reminder => reminder.taskId === 'task-0')).toBe(false);
+  });
+});
+
+describe('diffReminders', () => {
+  const task = makeTask({ reminders: [{ type: 'beforeDue', minutes: 15 }] });
+  const scheduled = toMap(computePendingReminders(makeLists([task]), NOW));
+
+  it('changes nothing while the task is unchanged', () => {
+    expect(diffReminders(scheduled, computePendingReminders(makeLists([task]), NOW))).toEqual({
+      toCancel: [],
+      toSchedule: [],
+    });
+  });
+
+  it('reschedules a reminder when the task is updated', () => {
+    const moved = makeTask({ ...task, dueDate: new Date(2024, 2, 6, 10, 0) });
+    const { toCancel, toSchedule } = diffReminders(scheduled, computePendingReminders(makeLists([moved]), NOW));
+
+    expect(toCancel).toEqual(['task-1:before-15']);
+    expect(toSchedule.map(reminder => reminder.fireDate)).toEqual([new Date(2024, 2, 6, 9, 45)]);
+  });
+
+  it('cancels the reminder when the task is completed', () => {
+    const completed = makeTask({ ...task, completed: true });
+
+    expect(diffReminders(scheduled, computePendingReminders(makeLists([completed]), NOW))).toEqual({
+      toCancel: ['task-1:before-15'],
+      toSchedule: [],
+    });
+  });
+
+  it('cancels the reminder when the task is deleted', () => {
+    expect(diffReminders(scheduled, computePendingReminders(makeLists([]), NOW))).toEqual({
+      toCancel: ['task-1:before-15'],
+      toSchedule: [],
+    });
+  });
+});
+
+describe('ReminderScheduler', () => {
+  const createDelivery = () => ({
+    schedule: jest.fn<Promise<void>, [ScheduledReminder]>(() => Promise.resolve()),
+    cancel: jest.fn<Promise<void>, [string]>(() => Promise.resolve()),
+    cancelAll: jest.fn<Promise<void>, []>(() => Promise.resolve()),
+  }) satisfies ReminderDelivery;
+
+  it('clears reminders from earlier sessions on the first sync, then only passes on changes', async () => {
+    const delivery = createDelivery();
+    const scheduler = new ReminderScheduler(delivery, () => NOW);
+    const task = makeTask({ reminders: [{ type: 'beforeDue', minutes: 0 }] });
+
+    await scheduler.sync(makeLists([task]));
+    expect(delivery.cancelAll).toHaveBeenCalledTimes(1);
+    expect(delivery.schedule).toHaveBeenCalledTimes(1);
+
+    await scheduler.sync(makeLists([task]));
+    expect(delivery.schedule).toHaveBeenCalledTimes(1);
+
+    await scheduler.sync(makeLists([]));
+    expect(delivery.cancel).toHaveBeenCalledWith('task-1:before-0');
+    expect(scheduler.getScheduledReminders()).toEqual([]);
+  });
+
+  it('drops reminders that have fired once the clock moves past them', async () => {
+    let now = NOW;
+    const scheduler = new ReminderScheduler(createDelivery(), () => now);
+    const lists = makeLists([makeTask({ reminders: [{ type: 'dayBefore', hour: 9, minute: 0 }, { type: 'beforeDue', minutes: 0 }] })]);
+
+    await scheduler.sync(lists);
+    expect(scheduler.getScheduledReminders()).toHaveLength(2);
+
+    now = new Date(2024, 2, 4, 12, 0);
+    await scheduler.sync(lists);
+    expect(scheduler.getScheduledReminders().map(reminder => reminder.id)).toEqual(['task-1:before-0']);
+  });
+});
@@ -0,0 +1,73 @@
+import { ReminderDelivery, ScheduledReminder } from '@/src/types';
+
+/** Longest delay `setTimeout` supports; later reminders are re-armed in steps */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Callback invoked when an in-app reminder fires
+ */
+export type ReminderListener = (reminder: ScheduledReminder) => void;
+
+/**
+ * Reminder delivery backed by in-process timers, for platforms without local
+ * notifications (web). Reminders only fire while the app is open; listeners
+ * such as ReminderBanner display them.
+ */
+export class InAppReminderDelivery implements ReminderDelivery {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<ReminderListener>();
+
+  /**
+   * Start a timer that notifies listeners at the reminder's fire date
+   * @param reminder - Reminder to schedule (replaces any with the same id)
+   */
+  async schedule(reminder: ScheduledReminder): Promise<void> {
+    this.clearTimer(reminder.id);
+    this.arm(reminder);
+  }
+
+  /**
+   * Stop a reminder's timer
+   * @param reminderId - Id of the reminder to cancel
+   */
+  async cancel(reminderId: string): Promise<void> {
+    this.clearTimer(reminderId);
+  }
+
+  /**
+   * Stop every pending timer
+   */
+  async cancelAll(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Subscribe to reminders as they fire
+   * @param listener - Called with each fired reminder
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ReminderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private arm(reminder: ScheduledReminder) {
+    const delay = reminder.fireDate.getTime() - Date.now();
+    this.timers.set(reminder.id, setTimeout(() => {
+      if (delay > MAX_TIMEOUT_MS) {
+        this.arm(reminder);
+        return;
+      }
+      this.timers.delete(reminder.id);
+      this.listeners.forEach(listener => listener(reminder));
+    }, Math.max(0, Math.min(delay, MAX_TIMEOUT_MS))));
+  }
+
+  private clearTimer(reminderId: string) {
+    clearTimeout(this.timers.get(reminderId));
+    this.timers.delete(reminderId);
+  }
+}
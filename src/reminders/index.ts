@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Reminder scheduling and delivery backends
+ * Every backend implements the ReminderDelivery interface from `@/src/types`
+ */
+
+import { Platform } from 'react-native';
+
+import { InAppReminderDelivery } from '@/src/reminders/inAppDelivery';
+import { NotificationReminderDelivery } from '@/src/reminders/notificationDelivery';
+import { ReminderDelivery } from '@/src/types';
+
+export { InAppReminderDelivery } from '@/src/reminders/inAppDelivery';
+export type { ReminderListener } from '@/src/reminders/inAppDelivery';
+export { NotificationReminderDelivery } from '@/src/reminders/notificationDelivery';
+export {
+  ALL_DAY_REMINDER_HOUR,
+  computePendingReminders,
+  describeReminderOffset,
+  diffReminders,
+  getReminderFireDate,
+  getReminderOffsetKey,
+  getTaskReminders,
+  MAX_PENDING_REMINDERS,
+  REMINDER_PRESETS,
+  ReminderScheduler
+} from '@/src/reminders/scheduler';
+export type { Clock } from '@/src/reminders/scheduler';
+
+/** In-app backend shared by the default scheduler on web and ReminderBanner */
+export const inAppReminderDelivery = new InAppReminderDelivery();
+
+/**
+ * Picks the delivery backend for the current platform:
+ * local notifications on device, in-app banners on web
+ */
+export const createPlatformReminderDelivery = (): ReminderDelivery =>
+  Platform.OS === 'web' ? inAppReminderDelivery : new NotificationReminderDelivery();
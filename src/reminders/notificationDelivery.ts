@@ -0,0 +1,92 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { ReminderDelivery, ScheduledReminder } from '@/src/types';
+
+/** Android notification channel reminders are posted to (also the default channel in app.json) */
+const REMINDER_CHANNEL_ID = 'task-reminders';
+
+/**
+ * Reminder delivery backed by local notifications (iOS and Android).
+ * Notification permission is requested the first time a reminder is scheduled;
+ * if it is denied, scheduling is silently skipped.
+ */
+export class NotificationReminderDelivery implements ReminderDelivery {
+  private setup: Promise<boolean> | null = null;
+
+  /**
+   * Schedule a local notification for the reminder's fire date
+   * @param reminder - Reminder to schedule; its id becomes the notification identifier
+   */
+  async schedule(reminder: ScheduledReminder): Promise<void> {
+    if (!(await this.ensureReady())) {
+      return;
+    }
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { taskId: reminder.taskId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireDate,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  }
+
+  /**
+   * Cancel a scheduled notification
+   * @param reminderId - Id of the reminder to cancel
+   */
+  async cancel(reminderId: string): Promise<void> {
+    await Notifications.cancelScheduledNotificationAsync(reminderId);
+  }
+
+  /**
+   * Cancel all notifications scheduled by the app
+   */
+  async cancelAll(): Promise<void> {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  }
+
+  /**
+   * One-time setup: foreground presentation, Android channel and permission
+   * @returns Promise<boolean> - whether notifications may be scheduled
+   */
+  private ensureReady(): Promise<boolean> {
+    if (!this.setup) {
+      this.setup = (async () => {
+        // Show reminders even while the app is in the foreground
+        Notifications.setNotificationHandler({
+          handleNotification: async () => ({
+            shouldShowBanner: true,
+            shouldShowList: true,
+            shouldPlaySound: true,
+            shouldSetBadge: false,
+          }),
+        });
+
+        if (Platform.OS === 'android') {
+          await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+            name: 'Task reminders',
+            importance: Notifications.AndroidImportance.HIGH,
+          });
+        }
+
+        const current = await Notifications.getPermissionsAsync();
+        if (current.granted) {
+          return true;
+        }
+        const requested = await Notifications.requestPermissionsAsync();
+        return requested.granted;
+      })().catch((error) => {
+        console.error('Error setting up notifications:', error);
+        return false;
+      });
+    }
+    return this.setup;
+  }
+}
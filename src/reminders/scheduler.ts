@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Reminder scheduling for task due dates
+ * Pure functions compute which reminders should be pending at a given time;
+ * ReminderScheduler keeps a delivery backend in sync with them
+ */
+
+import {
+  CategoryList,
+  ReminderDelivery,
+  ReminderOffset,
+  ScheduledReminder,
+  Task
+} from '@/src/types';
+import { formatDate, formatTime } from '@/src/utils';
+
+/** Hour of the day that all-day tasks are treated as due, for reminder purposes */
+export const ALL_DAY_REMINDER_HOUR = 9;
+
+/**
+ * Most reminders handed to the delivery backend at once.
+ * iOS keeps at most 64 pending local notifications, so only the soonest are scheduled.
+ */
+export const MAX_PENDING_REMINDERS = 64;
+
+/** Source of the current time, replaceable with a fake clock in tests */
+export type Clock = () => Date;
+
+const systemClock: Clock = () => new Date();
+
+/** Offsets offered as one-tap presets in the task modals */
+export const REMINDER_PRESETS: ReminderOffset[] = [
+  { type: 'beforeDue', minutes: 0 },
+  { type: 'beforeDue', minutes: 15 },
+  { type: 'dayBefore', hour: 9, minute: 0 },
+];
+
+/**
+ * Builds a stable key for an offset, used to derive reminder ids and compare offsets
+ *
+ * @example
+ * getReminderOffsetKey({ type: 'beforeDue', minutes: 15 }) // "before-15"
+ */
+export const getReminderOffsetKey = (offset: ReminderOffset): string =>
+  offset.type === 'beforeDue'
+    ? `before-${offset.minutes}`
+    : `daybefore-${offset.hour}:${offset.minute}`;
+
+/**
+ * Describes a reminder offset in plain language
+ *
+ * @example
+ * describeReminderOffset({ type: 'beforeDue', minutes: 90 }) // "1 hr 30 min before"
+ * describeReminderOffset({ type: 'dayBefore', hour: 9, minute: 0 }) // "Day before at 9:00 AM"
+ */
+export const describeReminderOffset = (offset: ReminderOffset): string => {
+  if (offset.type === 'dayBefore') {
+    return `Day before at ${formatTime(new Date(2000, 0, 1, offset.hour, offset.minute))}`;
+  }
+  if (offset.minutes === 0) return 'At due time';
+
+  const days = Math.floor(offset.minutes / 1440);
+  const hours = Math.floor((offset.minutes % 1440) / 60);
+  const minutes = offset.minutes % 60;
+  const parts = [
+    days > 0 && `${days} ${days === 1 ? 'day' : 'days'}`,
+    hours > 0 && `${hours} hr`,
+    minutes > 0 && `${minutes} min`,
+  ].filter(Boolean);
+  return `${parts.join(' ')} before`;
+};
+
+/**
+ * Computes when a reminder for a task fires
+ *
+ * @param task - Task the reminder belongs to
+ * @param offset - Reminder offset
+ * @returns Fire date of the reminder
+ */
+export const getReminderFireDate = (task: Task, offset: ReminderOffset): Date => {
+  const due = new Date(task.dueDate);
+  if (!task.hasDueTime) {
+    due.setHours(ALL_DAY_REMINDER_HOUR, 0, 0, 0);
+  }
+
+  if (offset.type === 'dayBefore') {
+    const fireDate = new Date(due);
+    fireDate.setDate(fireDate.getDate() - 1);
+    fireDate.setHours(offset.hour, offset.minute, 0, 0);
+    return fireDate;
+  }
+  return new Date(due.getTime() - offset.minutes * 60 * 1000);
+};
+
+/**
+ * Builds the reminders for a single task, including ones that have already fired
+ *
+ * @param task - Task to build reminders for
+ * @returns One reminder per distinct offset
+ */
+export const getTaskReminders = (task: Task): ScheduledReminder[] => {
+  const body = `Due ${formatDate(task.dueDate, { format: 'short', includeTime: task.hasDueTime })}`;
+  const keys = new Set<string>();
+
+  return (task.reminders ?? []).flatMap((offset) => {
+    const key = getReminderOffsetKey(offset);
+    if (keys.has(key)) return [];
+    keys.add(key);
+    return [{
+      id: `${task.id}:${key}`,
+      taskId: task.id,
+      title: task.title,
+      body,
+      fireDate: getReminderFireDate(task, offset),
+    }];
+  });
+};
+
+/**
+ * Computes every reminder that should still fire, soonest first
+ *
+ * Completed tasks and reminders whose fire date is not after `now` are left out.
+ *
+ * @param categoryLists - All lists with their tasks
+ * @param now - Current time
+ * @param limit - Maximum number of reminders to return
+ * @returns Pending reminders sorted by fire date
+ *
+ * @example
+ * const pending = computePendingReminders(categoryLists, new Date('2024-03-01T08:00:00'));
+ */
+export const computePendingReminders = (
+  categoryLists: CategoryList[],
+  now: Date,
+  limit = MAX_PENDING_REMINDERS
+): ScheduledReminder[] =>
+  categoryLists
+    .flatMap(categoryList => categoryList.tasks)
+    .filter(task => !task.completed)
+    .flatMap(getTaskReminders)
+    .filter(reminder => reminder.fireDate.getTime() > now.getTime())
+    .sort((a, b) => a.fireDate.getTime() - b.fireDate.getTime())
+    .slice(0, limit);
+
+/**
+ * Works out which reminders must be cancelled and (re)scheduled to move
+ * from the currently scheduled set to the pending set
+ *
+ * A reminder whose fire date or text changed is cancelled and scheduled again.
+ *
+ * @param scheduled - Reminders currently scheduled, keyed by id
+ * @param pending - Reminders that should be scheduled
+ * @returns Ids to cancel and reminders to schedule
+ */
+export const diffReminders = (
+  scheduled: ReadonlyMap<string, ScheduledReminder>,
+  pending: ScheduledReminder[]
+): { toCancel: string[]; toSchedule: ScheduledReminder[] } => {
+  const pendingById = new Map(pending.map(reminder => [reminder.id, reminder]));
+  const toCancel: string[] = [];
+  const toSchedule: ScheduledReminder[] = [];
+
+  scheduled.forEach((reminder, id) => {
+    const next = pendingById.get(id);
+    if (
+      !next ||
+      next.fireDate.getTime() !== reminder.fireDate.getTime() ||
+      next.title !== reminder.title ||
+      next.body !== reminder.body
+    ) {
+      toCancel.push(id);
+    }
+  });
+
+  pending.forEach((reminder) => {
+    if (!scheduled.has(reminder.id) || toCancel.includes(reminder.id)) {
+      toSchedule.push(reminder);
+    }
+  });
+
+  return { toCancel, toSchedule };
+};
+
+/**
+ * Keeps a delivery backend's scheduled reminders in step with task data
+ *
+ * Call `sync` whenever lists change; only reminders that were added, removed
+ * or moved are passed to the backend. Deliveries run one at a time in call order.
+ *
+ * @example
+ * const scheduler = new ReminderScheduler(new InAppReminderDelivery());
+ * scheduler.sync(categoryLists);
+ *
+ * @example
+ * // Fake clock in tests
+ * const scheduler = new ReminderScheduler(delivery, () => new Date('2024-03-01T08:00:00'));
+ */
+export class ReminderScheduler {
+  private scheduled = new Map<string, ScheduledReminder>();
+  private queue: Promise<void> = Promise.resolve();
+  private initialized = false;
+
+  constructor(
+    private readonly delivery: ReminderDelivery,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Reschedules reminders to match the given lists
+   * @param categoryLists - All lists with their tasks
+   * @returns Promise resolving once the backend has been updated
+   */
+  sync(categoryLists: CategoryList[]): Promise<void> {
+    const pending = computePendingReminders(categoryLists, this.clock());
+    const { toCancel, toSchedule } = diffReminders(this.scheduled, pending);
+    const isFirstSync = !this.initialized;
+
+    this.initialized = true;
+    toCancel.forEach(id => this.scheduled.delete(id));
+    toSchedule.forEach(reminder => this.scheduled.set(reminder.id, reminder));
+
+    this.queue = this.queue.then(async () => {
+      try {
+        // Reminders left by a previous session are unknown to us, so start from a clean slate
+        if (isFirstSync) {
+          await this.delivery.cancelAll();
+        } else {
+          await Promise.all(toCancel.map(id => this.delivery.cancel(id)));
+        }
+        await Promise.all(toSchedule.map(reminder => this.delivery.schedule(reminder)));
+      } catch (error) {
+        console.error('Error scheduling reminders:', error);
+      }
+    });
+    return this.queue;
+  }
+
+  /**
+   * Returns the reminders currently handed to the backend, soonest first
+   */
+  getScheduledReminders(): ScheduledReminder[] {
+    return [...this.scheduled.values()].sort((a, b) => a.fireDate.getTime() - b.fireDate.getTime());
+  }
+}
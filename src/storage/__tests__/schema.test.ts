@@ -0,0 +1,80 @@
+import { deserializeTaskData, STORAGE_SCHEMA_VERSION } from '@/src/storage/schema';
+import { getIdTimestamp } from '@/src/utils';
+
+// Data as written by the first version of the app: no version field, `Date.now()` ids,
+// tasks pointing at their list by name and no timestamps
+const LEGACY_V1_DATA = {
+  categoryLists: [
+    {
+      category: 'Work',
+      color: '#007AFF',
+      icon: 'briefcase.fill',
+      tasks: [
+        {
+          id: '1702652400000',
+          title: 'Write report',
+          category: 'Work',
+          completed: true,
+          dueDate: '2023-12-16T00:00:00.000Z',
+          subtasks: [
+            { id: '1702652400000-0', name: 'Outline', completed: true },
+            { id: '1702652400000-0', name: 'Draft', completed: false },
+          ],
+        },
+        // Created in the same millisecond as the task above
+        { id: '1702652400000', title: 'Send report', category: 'Work', completed: false, dueDate: '2023-12-16T00:00:00.000Z' },
+        // Ids that are not `Date.now()` strings
+        { id: '7', title: 'Hand-written id', category: 'Work', completed: false, dueDate: '2023-12-16T00:00:00.000Z' },
+        { id: 'imported', title: 'Text id', category: 'Work', completed: false, dueDate: '2023-12-16T00:00:00.000Z' },
+      ],
+    },
+  ],
+};
+
+const MIGRATED_AT = new Date('2024-06-01T12:00:00.000Z');
+const CREATED_AT = new Date(1702652400000);
+
+describe('deserializeTaskData with legacy v1 data', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: MIGRATED_AT });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it(`migrates to version ${STORAGE_SCHEMA_VERSION}, giving the list an id its tasks point at`, () => {
+    const [list] = deserializeTaskData(LEGACY_V1_DATA).categoryLists;
+
+    expect(list.id).toEqual(expect.any(String));
+    expect(list.tasks.map(task => task.listId)).toEqual([list.id, list.id, list.id, list.id]);
+  });
+
+  it('re-keys duplicate ids with ids carrying the original time', () => {
+    const [first, duplicate] = deserializeTaskData(LEGACY_V1_DATA).categoryLists[0].tasks;
+
+    expect(first.id).toBe('1702652400000');
+    expect(duplicate.id).not.toBe(first.id);
+    expect(getIdTimestamp(duplicate.id)).toBe(CREATED_AT.getTime());
+    expect(first.subtasks?.[0].id).toBe('1702652400000-0');
+    expect(getIdTimestamp(first.subtasks![1].id)).toBe(CREATED_AT.getTime());
+  });
+
+  it('back-fills timestamps from the id, including re-keyed ones', () => {
+    const [first, duplicate] = deserializeTaskData(LEGACY_V1_DATA).categoryLists[0].tasks;
+
+    expect(first.createdAt).toEqual(CREATED_AT);
+    expect(first.updatedAt).toEqual(CREATED_AT);
+    expect(first.completedAt).toEqual(CREATED_AT);
+    expect(duplicate.createdAt).toEqual(CREATED_AT);
+    expect(duplicate.completedAt).toBeUndefined();
+  });
+
+  it('uses the migration time for ids that are not timestamps', () => {
+    const [, , handWritten, text] = deserializeTaskData(LEGACY_V1_DATA).categoryLists[0].tasks;
+
+    expect(handWritten.createdAt).toEqual(MIGRATED_AT);
+    expect(text.createdAt).toEqual(MIGRATED_AT);
+    expect(text.updatedAt).toEqual(MIGRATED_AT);
+  });
+});
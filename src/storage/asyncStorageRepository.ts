@@ -0,0 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { deserializeTaskData, serializeTaskData } from '@/src/storage/schema';
+import { TaskRepository, TaskSnapshot, TaskSnapshotListener } from '@/src/types';
+
+const TASK_DATA_KEY = '@TaskManager:taskData';
+
+/**
+ * Task repository backed by AsyncStorage (device storage on native, localStorage on web)
+ */
+export class AsyncStorageTaskRepository implements TaskRepository {
+  private listeners = new Set<TaskSnapshotListener>();
+
+  /**
+   * @param storageKey - AsyncStorage key the data is written under
+   */
+  constructor(private readonly storageKey: string = TASK_DATA_KEY) {}
+
+  /**
+   * Load persisted data, migrating it to the current schema
+   * @returns Promise<TaskSnapshot | null> - stored data, or null if nothing has been saved yet
+   * @throws StorageSchemaError if stored data cannot be read by this app version
+   */
+  async load(): Promise<TaskSnapshot | null> {
+    const raw = await AsyncStorage.getItem(this.storageKey);
+    if (raw === null) {
+      return null;
+    }
+    return deserializeTaskData(JSON.parse(raw));
+  }
+
+  /**
+   * Persist a snapshot in the current schema version and notify subscribers
+   * @param snapshot - Data to write
+   */
+  async save(snapshot: TaskSnapshot): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(serializeTaskData(snapshot)));
+      this.listeners.forEach(listener => listener(snapshot));
+    } catch (error) {
+      console.error('Error saving task data:', error);
+    }
+  }
+
+  /**
+   * Subscribe to snapshots saved through this repository
+   * @param listener - Called with each saved snapshot
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: TaskSnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Remove all persisted task data (useful for testing or user request)
+   */
+  async clear(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.error('Error clearing task data:', error);
+    }
+  }
+}
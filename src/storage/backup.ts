@@ -0,0 +1,343 @@
+/**
+ * @fileoverview Versioned JSON backups of every list, task and subtask
+ * Writes backups with ISO dates, and reads them back validating each list and task,
+ * so a backup can move data between devices. Free of React Native imports so it runs in Node.
+ */
+
+import { deserializeTask, serializeTask, StoredRecurrenceRule, StoredTask } from '@/src/storage/schema';
+import {
+  BackupParseResult,
+  BackupRecordError,
+  CategoryList,
+  ListRecord,
+  Priority,
+  RecurrenceFrequency,
+  ReminderOffset,
+  Subtask,
+  TaskSortKey
+} from '@/src/types';
+
+/** Identifies a file as a backup written by this app */
+export const BACKUP_FORMAT = 'chapter-one-backup';
+
+/**
+ * Current version of the backup layout.
+ * Bump this when the layout changes in a way older versions of the app cannot read.
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * Backup file contents, with dates stored as ISO strings
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  categoryLists: (ListRecord & { tasks: StoredTask[] })[];
+}
+
+/**
+ * Error thrown when a file is not a backup this version of the app can read
+ */
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+const PRIORITIES: Priority[] = ['!!!', '!!', '!'];
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekdays', 'weekly', 'monthly', 'yearly'];
+const SORT_KEYS: TaskSortKey[] = ['dueDate', 'priority', 'title', 'created', 'manual'];
+
+/**
+ * Creates a backup of category lists
+ *
+ * @param categoryLists - Lists to back up, with their tasks
+ * @param exportedAt - Time the backup is taken
+ * @returns JSON text of the backup
+ *
+ * @example
+ * Share.share({ message: serializeBackup(categoryLists) });
+ */
+export const serializeBackup = (categoryLists: CategoryList[], exportedAt: Date = new Date()): string => {
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    categoryLists: categoryLists.map(categoryList => ({
+      ...categoryList,
+      tasks: categoryList.tasks.map(serializeTask),
+    })),
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+/**
+ * Thrown inside the validators with the reason a record is invalid
+ */
+class InvalidRecord extends Error {}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (record: Record<string, unknown>, field: string): string => {
+  const value = record[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new InvalidRecord(`${field} must be a non-empty string`);
+  }
+  return value;
+};
+
+const readOptional = <T>(
+  record: Record<string, unknown>,
+  field: string,
+  isValid: (value: unknown) => boolean,
+  expected: string
+): T | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  if (!isValid(value)) {
+    throw new InvalidRecord(`${field} must be ${expected}`);
+  }
+  return value as T;
+};
+
+const isDateString = (value: unknown): boolean =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+
+const readDate = (record: Record<string, unknown>, field: string): string => {
+  const value = record[field];
+  if (!isDateString(value)) {
+    throw new InvalidRecord(`${field} must be an ISO date`);
+  }
+  return value as string;
+};
+
+const readSubtask = (value: unknown, index: number): Subtask => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || typeof value.completed !== 'boolean') {
+    throw new InvalidRecord(`subtask ${index + 1} must have a string id and name and a boolean completed`);
+  }
+  return { id: value.id, name: value.name, completed: value.completed };
+};
+
+const readReminder = (value: unknown): ReminderOffset => {
+  if (isObject(value) && value.type === 'beforeDue' && Number.isInteger(value.minutes)) {
+    return { type: 'beforeDue', minutes: value.minutes as number };
+  }
+  if (isObject(value) && value.type === 'dayBefore' && Number.isInteger(value.hour) && Number.isInteger(value.minute)) {
+    return { type: 'dayBefore', hour: value.hour as number, minute: value.minute as number };
+  }
+  throw new InvalidRecord('reminders must be beforeDue or dayBefore offsets');
+};
+
+const readRecurrence = (value: unknown): StoredRecurrenceRule => {
+  if (!isObject(value) || !FREQUENCIES.includes(value.frequency as RecurrenceFrequency)) {
+    throw new InvalidRecord(`recurrence.frequency must be one of ${FREQUENCIES.join(', ')}`);
+  }
+  const weekdays = readOptional<number[]>(
+    value,
+    'weekdays',
+    days => Array.isArray(days) && days.every(day => Number.isInteger(day) && day >= 0 && day <= 6),
+    'a list of weekdays from 0 to 6'
+  );
+  return {
+    frequency: value.frequency as RecurrenceFrequency,
+    interval: readOptional(value, 'interval', isPositiveInteger, 'a positive integer'),
+    weekdays,
+    monthlyMode: readOptional(value, 'monthlyMode', mode => mode === 'dayOfMonth' || mode === 'nthWeekday', 'dayOfMonth or nthWeekday'),
+    monthDay: readOptional(value, 'monthDay', day => Number.isInteger(day) && (day as number) >= 1 && (day as number) <= 31, 'a day from 1 to 31'),
+    weekOfMonth: readOptional(value, 'weekOfMonth', week => [1, 2, 3, 4, -1].includes(week as number), '1 to 4, or -1'),
+    endDate: readOptional(value, 'endDate', isDateString, 'an ISO date'),
+    count: readOptional(value, 'count', isPositiveInteger, 'a positive integer'),
+  };
+};
+
+/**
+ * Checks a stored task against the `Task` type, keeping only known fields
+ */
+const readTask = (value: unknown, listId: string): StoredTask => {
+  if (!isObject(value)) {
+    throw new InvalidRecord('must be an object');
+  }
+  const id = readString(value, 'id');
+  const title = readString(value, 'title');
+  if (typeof value.completed !== 'boolean') {
+    throw new InvalidRecord('completed must be true or false');
+  }
+  const subtasks = readOptional<unknown[]>(value, 'subtasks', Array.isArray, 'a list');
+  const reminders = readOptional<unknown[]>(value, 'reminders', Array.isArray, 'a list');
+  const recurrence = value.recurrence === undefined || value.recurrence === null ? undefined : readRecurrence(value.recurrence);
+
+  return {
+    id,
+    title,
+    description: readOptional(value, 'description', text => typeof text === 'string', 'a string'),
+    dueDate: readDate(value, 'dueDate'),
+    hasDueTime: readOptional(value, 'hasDueTime', flag => typeof flag === 'boolean', 'true or false'),
+    completed: value.completed,
+    listId,
+    priority: readOptional(value, 'priority', priority => PRIORITIES.includes(priority as Priority), PRIORITIES.join(', ')),
+    subtasks: subtasks?.map(readSubtask),
+    recurrence,
+    recurrenceIndex: readOptional(value, 'recurrenceIndex', isPositiveInteger, 'a positive integer'),
+    nextOccurrenceId: readOptional(value, 'nextOccurrenceId', nextId => typeof nextId === 'string', 'a string'),
+    reminders: reminders?.map(readReminder),
+    tags: readOptional(value, 'tags', tags => Array.isArray(tags) && tags.every(tag => typeof tag === 'string'), 'a list of strings'),
+    createdAt: readDate(value, 'createdAt'),
+    updatedAt: readDate(value, 'updatedAt'),
+    completedAt: readOptional(value, 'completedAt', isDateString, 'an ISO date'),
+  };
+};
+
+/**
+ * Checks a stored list against the `CategoryList` type, without its tasks
+ */
+const readList = (value: unknown): ListRecord => {
+  if (!isObject(value)) {
+    throw new InvalidRecord('must be an object');
+  }
+  const sort = readOptional<Record<string, unknown>>(
+    value,
+    'sort',
+    setting => isObject(setting) && SORT_KEYS.includes(setting.key as TaskSortKey) && typeof setting.completedLast === 'boolean',
+    `a sort key (${SORT_KEYS.join(', ')}) and completedLast flag`
+  );
+
+  return {
+    id: readString(value, 'id'),
+    category: readString(value, 'category'),
+    color: readString(value, 'color'),
+    icon: readString(value, 'icon'),
+    ...(sort && { sort: { key: sort.key as TaskSortKey, completedLast: sort.completedLast as boolean } }),
+  };
+};
+
+/**
+ * Names a record for error messages by its position and, when it has one, its name
+ */
+const describeRecord = (kind: string, index: number, value: unknown, nameField: string): string => {
+  const name = isObject(value) && typeof value[nameField] === 'string' ? ` "${value[nameField]}"` : '';
+  return `${kind} ${index + 1}${name}`;
+};
+
+/**
+ * Reads a backup, validating every list and task.
+ * Invalid lists and tasks, and repeats of an id already read, are left out and reported;
+ * the tasks of a list that is left out are not checked.
+ *
+ * @param json - JSON text of a backup
+ * @returns The valid lists, an error per record left out, and when the backup was taken
+ * @throws BackupFormatError if the text is not a backup, or was written by a newer app version
+ *
+ * @example
+ * const { categoryLists, errors } = parseBackup(text);
+ * errors.forEach(error => console.warn(`${error.record}: ${error.message}`));
+ */
+export const parseBackup = (json: string): BackupParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new BackupFormatError('The file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT || !Array.isArray(data.categoryLists)) {
+    throw new BackupFormatError('The file is not a task backup');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new BackupFormatError(
+      `The backup has version ${String(data.version)}; this app reads backups up to version ${BACKUP_VERSION}`
+    );
+  }
+
+  const errors: BackupRecordError[] = [];
+  const listIds = new Set<string>();
+  const taskIds = new Set<string>();
+  const categoryLists: CategoryList[] = [];
+
+  data.categoryLists.forEach((listValue: unknown, listIndex) => {
+    const listRecord = describeRecord('List', listIndex, listValue, 'category');
+    let list: ListRecord;
+    try {
+      list = readList(listValue);
+      if (listIds.has(list.id)) {
+        throw new InvalidRecord(`id ${list.id} is used by an earlier list`);
+      }
+      if (!Array.isArray((listValue as Record<string, unknown>).tasks)) {
+        throw new InvalidRecord('tasks must be a list');
+      }
+    } catch (error) {
+      if (!(error instanceof InvalidRecord)) throw error;
+      errors.push({ record: listRecord, message: error.message });
+      return;
+    }
+    listIds.add(list.id);
+
+    const tasks = ((listValue as Record<string, unknown>).tasks as unknown[]).flatMap((taskValue, taskIndex) => {
+      try {
+        const task = readTask(taskValue, list.id);
+        if (taskIds.has(task.id)) {
+          throw new InvalidRecord(`id ${task.id} is used by an earlier task`);
+        }
+        taskIds.add(task.id);
+        return [deserializeTask(task)];
+      } catch (error) {
+        if (!(error instanceof InvalidRecord)) throw error;
+        errors.push({
+          record: `${listRecord} › ${describeRecord('task', taskIndex, taskValue, 'title')}`,
+          message: error.message,
+        });
+        return [];
+      }
+    });
+
+    categoryLists.push({ ...list, tasks });
+  });
+
+  return {
+    categoryLists,
+    errors,
+    exportedAt: isDateString(data.exportedAt) ? new Date(data.exportedAt as string) : undefined,
+  };
+};
+
+/**
+ * Adds imported lists and tasks to existing ones, deduplicating by id.
+ * A list that already exists keeps its name, color and icon and gains the imported tasks
+ * it does not have; a task whose id already exists in any list is left as it is.
+ *
+ * @param existing - Current lists
+ * @param imported - Lists read from a backup
+ * @returns The merged lists, and how many lists and tasks were added or skipped
+ *
+ * @example
+ * const { categoryLists, addedTasks } = mergeCategoryLists(current, parseBackup(text).categoryLists);
+ */
+export const mergeCategoryLists = (existing: CategoryList[], imported: CategoryList[]) => {
+  const existingTaskIds = new Set(existing.flatMap(categoryList => categoryList.tasks.map(task => task.id)));
+  const merged = new Map(existing.map(categoryList => [categoryList.id, categoryList]));
+  let addedLists = 0;
+  let addedTasks = 0;
+  let skippedTasks = 0;
+
+  imported.forEach(categoryList => {
+    const newTasks = categoryList.tasks.filter(task => !existingTaskIds.has(task.id));
+    addedTasks += newTasks.length;
+    skippedTasks += categoryList.tasks.length - newTasks.length;
+
+    const current = merged.get(categoryList.id);
+    if (current) {
+      if (newTasks.length > 0) {
+        merged.set(categoryList.id, { ...current, tasks: [...current.tasks, ...newTasks] });
+      }
+    } else {
+      addedLists += 1;
+      merged.set(categoryList.id, { ...categoryList, tasks: newTasks });
+    }
+  });
+
+  return { categoryLists: [...merged.values()], addedLists, addedTasks, skippedTasks };
+};
@@ -0,0 +1,481 @@
+/**
+ * @fileoverview CSV export and import of tasks for spreadsheets
+ * One row per task with its list, title, description, due date, priority, completion and
+ * subtasks (one per line within the cell). Free of React Native imports so it runs in Node.
+ */
+
+import { PREDEFINED_COLORS, PREDEFINED_ICONS } from '@/constants/ListAppearance';
+import {
+  CategoryList,
+  CsvColumnMapping,
+  CsvDateOrder,
+  CsvField,
+  CsvRow,
+  CsvSkippedRow,
+  CsvTaskDraft,
+  ListRecord,
+  Priority,
+  Task
+} from '@/src/types';
+import { generateId } from '@/src/utils';
+
+/** Delimiters recognized when reading a CSV file */
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/** Columns written on export, in order, with their header names */
+export const CSV_COLUMNS: { field: CsvField; header: string }[] = [
+  { field: 'list', header: 'List' },
+  { field: 'title', header: 'Title' },
+  { field: 'description', header: 'Description' },
+  { field: 'dueDate', header: 'Due Date' },
+  { field: 'priority', header: 'Priority' },
+  { field: 'completed', header: 'Completed' },
+  { field: 'subtasks', header: 'Subtasks' },
+];
+
+/** List that imported rows without a list name go into */
+export const CSV_DEFAULT_LIST_NAME = 'Imported';
+
+/**
+ * Header names recognized for each field when guessing the column mapping
+ * (compared in lower case with spaces and punctuation removed)
+ */
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  list: ['list', 'category', 'project', 'listname'],
+  title: ['title', 'task', 'name', 'taskname'],
+  description: ['description', 'notes', 'note', 'details'],
+  dueDate: ['duedate', 'due', 'date', 'deadline'],
+  priority: ['priority'],
+  completed: ['completed', 'done', 'complete', 'status'],
+  subtasks: ['subtasks', 'subtask', 'checklist'],
+};
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  '!!!': '!!!',
+  '!!': '!!',
+  '!': '!',
+  high: '!!!',
+  medium: '!!',
+  low: '!',
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x', 'done', 'completed', '✓'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', 'todo', 'to do', 'open', 'incomplete', ''];
+
+/**
+ * Guesses the delimiter of a CSV file from its first row
+ *
+ * @param text - CSV text
+ * @returns The recognized delimiter occurring most often outside quotes (comma if none occurs)
+ */
+export const detectCsvDelimiter = (text: string): string => {
+  const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      }
+    } else if (char === '"' && (index === 0 || counts.has(text[index - 1]))) {
+      // As in parseCsv, only a quote at the start of a field opens a quoted section
+      inQuotes = true;
+    } else if (char === '\n' || char === '\r') {
+      break;
+    } else if (counts.has(char)) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+  }
+  return CSV_DELIMITERS.reduce((best, delimiter) => (counts.get(delimiter)! > counts.get(best)! ? delimiter : best));
+};
+
+/**
+ * Splits CSV text into rows of fields, each with the line it starts on.
+ * Quoted fields may contain delimiters, line breaks and doubled quotes (`""`);
+ * a quote elsewhere in a field (as in `2" pipe`) is kept as text. Blank lines are skipped.
+ *
+ * @param text - CSV text
+ * @param delimiter - Field delimiter (detected from the first row by default)
+ * @returns Rows of unquoted field values
+ *
+ * @example
+ * parseCsv('Title,Notes\n\n"Buy milk","2 litres, semi-skimmed"')
+ * // [{ line: 1, cells: ['Title', 'Notes'] }, { line: 3, cells: ['Buy milk', '2 litres, semi-skimmed'] }]
+ */
+export const parseCsv = (text: string, delimiter: string = detectCsvDelimiter(text)): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  // Line being read, and the line the current row started on
+  let line = 1;
+  let rowLine = 1;
+  let field = '';
+  let inQuotes = false;
+  // Whether nothing of the current field has been read, so a quote opens a quoted section
+  let atFieldStart = true;
+  // Whether the row has any content, so blank lines can be skipped
+  let rowStarted = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    atFieldStart = true;
+  };
+  const endRow = () => {
+    endField();
+    if (rowStarted) rows.push({ line: rowLine, cells: row });
+    row = [];
+    rowStarted = false;
+  };
+
+  // A leading byte order mark (written by spreadsheet apps) is not part of the data
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        // A line break within the field (\r\n counted once)
+        if (char === '\n' || (char === '\r' && input[index + 1] !== '\n')) line++;
+      }
+    } else if (char === '"' && atFieldStart) {
+      inQuotes = true;
+      atFieldStart = false;
+      rowStarted = true;
+    } else if (char === delimiter) {
+      endField();
+      rowStarted = true;
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+      atFieldStart = false;
+      rowStarted = true;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+/**
+ * Joins rows of fields into CSV text, quoting fields that need it
+ *
+ * @param rows - Rows of field values
+ * @param delimiter - Field delimiter
+ * @returns CSV text with CRLF line endings, as spreadsheet apps write it
+ */
+export const formatCsv = (rows: string[][], delimiter: string = ','): string => {
+  const quote = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+  return rows.map(row => row.map(quote).join(delimiter)).join('\r\n');
+};
+
+/** Leading characters that make spreadsheet apps read a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Prefixes text that a spreadsheet would run as a formula with `'`, so it is shown as text
+ */
+const escapeFormula = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+/**
+ * Removes the `'` added by escapeFormula (or by a spreadsheet app for the same reason)
+ */
+const unescapeFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Formats a due date as `YYYY-MM-DD`, with ` HH:mm` for tasks due at a time of day
+ */
+const formatCsvDate = (task: Task): string => {
+  const date = task.dueDate;
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return task.hasDueTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+};
+
+/**
+ * Creates a CSV export of every task, one row per task under a header row.
+ * Text starting with `=`, `+`, `-` or `@` is prefixed with `'` so spreadsheets do not run it as a formula.
+ *
+ * @param categoryLists - Lists whose tasks to export
+ * @param delimiter - Field delimiter
+ * @returns CSV text with the columns of `CSV_COLUMNS`
+ *
+ * @example
+ * Share.share({ message: exportTasksCsv(categoryLists) });
+ */
+export const exportTasksCsv = (categoryLists: CategoryList[], delimiter: string = ','): string => {
+  const rows = categoryLists.flatMap(categoryList =>
+    categoryList.tasks.map(task => {
+      const values: Record<CsvField, string> = {
+        list: escapeFormula(categoryList.category),
+        title: escapeFormula(task.title),
+        description: escapeFormula(task.description ?? ''),
+        dueDate: formatCsvDate(task),
+        priority: task.priority ?? '',
+        completed: task.completed ? 'yes' : 'no',
+        subtasks: (task.subtasks ?? [])
+          .map(subtask => `[${subtask.completed ? 'x' : ' '}] ${subtask.name}`)
+          .join('\n'),
+      };
+      return CSV_COLUMNS.map(({ field }) => values[field]);
+    })
+  );
+  return formatCsv([CSV_COLUMNS.map(({ header }) => header), ...rows], delimiter);
+};
+
+/**
+ * Matches header names to task fields
+ *
+ * @param header - First row of the file
+ * @returns Column index for each field whose header was recognized
+ *
+ * @example
+ * guessCsvMapping(['Task', 'Due', 'Project']) // { title: 0, dueDate: 1, list: 2 }
+ */
+export const guessCsvMapping = (header: string[]): CsvColumnMapping => {
+  const names = header.map(name => name.toLowerCase().replace(/[^a-z]/g, ''));
+  const mapping: CsvColumnMapping = {};
+  CSV_COLUMNS.forEach(({ field }) => {
+    const index = names.findIndex((name, column) =>
+      HEADER_ALIASES[field].includes(name) && !Object.values(mapping).includes(column)
+    );
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+/** Dates written with slashes or dots, day and month in either order, with an optional time */
+const NUMERIC_DATE = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?: (\d{1,2}):(\d{2})(?::\d{2})? *([ap]m)?)?$/i;
+
+/**
+ * Guesses whether the dates in a column put the month or the day first,
+ * from a date whose first or second number is over 12
+ *
+ * @param rows - Rows of the file
+ * @param column - Column holding due dates
+ * @returns The order the dates can only be read in, or 'mdy' if none of them tells
+ */
+export const guessCsvDateOrder = (rows: CsvRow[], column: number | undefined): CsvDateOrder => {
+  if (column === undefined) return 'mdy';
+  for (const { cells } of rows) {
+    const match = (cells[column] ?? '').trim().match(NUMERIC_DATE);
+    if (match && +match[1] > 12) return 'dmy';
+    if (match && +match[2] > 12) return 'mdy';
+  }
+  return 'mdy';
+};
+
+/**
+ * Reads a due date written as `YYYY-MM-DD`, as `M/D/YYYY` or `D/M/YYYY` (slashes or dots;
+ * either form with an optional time), or as an ISO timestamp
+ *
+ * @param value - Cell text
+ * @param dateOrder - Whether dates with slashes or dots put the month or the day first
+ * @returns The date and whether it includes a time of day, or null if it is not a date
+ */
+export const parseCsvDate = (
+  value: string,
+  dateOrder: CsvDateOrder = 'mdy'
+): { date: Date; hasDueTime: boolean } | null => {
+  const text = value.trim();
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2})?)?$/);
+  const numericMatch = text.match(NUMERIC_DATE);
+
+  let parts: { year: number; month: number; day: number; hours?: number; minutes?: number } | null = null;
+  if (isoMatch) {
+    const [, year, month, day, hours, minutes] = isoMatch;
+    parts = { year: +year, month: +month, day: +day, hours: hours ? +hours : undefined, minutes: minutes ? +minutes : undefined };
+  } else if (numericMatch) {
+    const [, first, second, year, hours, minutes, meridiem] = numericMatch;
+    const [month, day] = dateOrder === 'mdy' ? [first, second] : [second, first];
+    let hour = hours ? +hours : undefined;
+    if (hour !== undefined && meridiem) {
+      hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    }
+    parts = { year: +year, month: +month, day: +day, hours: hour, minutes: minutes ? +minutes : undefined };
+  }
+
+  if (parts) {
+    const { year, month, day, hours, minutes } = parts;
+    const date = new Date(year, month - 1, day, hours ?? 0, minutes ?? 0);
+    // Rejects dates such as 2024-02-31 that Date would roll over into the next month
+    if (date.getMonth() !== month - 1 || date.getDate() !== day || (hours ?? 0) > 23 || (minutes ?? 0) > 59) {
+      return null;
+    }
+    return { date, hasDueTime: hours !== undefined };
+  }
+
+  // Full timestamps with a time zone, e.g. 2024-03-01T09:30:00Z
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text) && !Number.isNaN(Date.parse(text))) {
+    return { date: new Date(text), hasDueTime: true };
+  }
+  return null;
+};
+
+/**
+ * Reads subtasks written one per line, each optionally prefixed with `[x]` or `[ ]`
+ */
+const parseSubtasks = (value: string): CsvTaskDraft['subtasks'] =>
+  value
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => {
+      const match = line.match(/^\[([ xX✓]?)\]\s*(.*)$/);
+      return match ? { name: match[2], completed: match[1].trim() !== '' } : { name: line, completed: false };
+    })
+    .filter(subtask => subtask.name !== '');
+
+/**
+ * Turns CSV rows into task drafts using a column mapping.
+ * Rows without a title, or with a due date, priority or completion that cannot be read,
+ * are skipped and reported. Rows without a due date are due today.
+ * The `'` that exports put before text starting with a formula character is removed.
+ *
+ * @param rows - Rows of the file, including the header row if it has one; skipped rows
+ *   are reported by the line they start on
+ * @param mapping - Column each field is read from (a title column is required)
+ * @param options - Whether the first row is a header, the order of day and month in dates,
+ *   and the current time for undated rows
+ * @returns Drafts for the rows that can be imported, and the rows skipped
+ *
+ * @example
+ * const rows = parseCsv(text);
+ * const { tasks, skipped } = readCsvTasks(rows, guessCsvMapping(rows[0].cells), { hasHeader: true });
+ */
+export const readCsvTasks = (
+  rows: CsvRow[],
+  mapping: CsvColumnMapping,
+  { hasHeader, dateOrder = 'mdy', now = new Date() }: { hasHeader: boolean; dateOrder?: CsvDateOrder; now?: Date }
+): { tasks: CsvTaskDraft[]; skipped: CsvSkippedRow[] } => {
+  const tasks: CsvTaskDraft[] = [];
+  const skipped: CsvSkippedRow[] = [];
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  rows.forEach(({ line: row, cells }, index) => {
+    // Header rows, and empty rows spreadsheet apps leave at the end, are not tasks
+    if ((hasHeader && index === 0) || cells.every(cell => cell.trim() === '')) return;
+    const read = (field: CsvField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : unescapeFormula((cells[column] ?? '').trim());
+    };
+    const skip = (reason: string) => skipped.push({ row, reason });
+
+    const title = read('title');
+    if (!title) {
+      skip('No title');
+      return;
+    }
+
+    const dueText = read('dueDate');
+    const due = dueText ? parseCsvDate(dueText, dateOrder) : { date: today, hasDueTime: false };
+    if (!due) {
+      skip(`Due date "${dueText}" is not a date`);
+      return;
+    }
+
+    const priorityText = read('priority');
+    const priority = PRIORITY_ALIASES[priorityText.toLowerCase()];
+    if (priorityText && !priority) {
+      skip(`Priority "${priorityText}" is not !!!, !!, ! (or high, medium, low)`);
+      return;
+    }
+
+    const completedText = read('completed').toLowerCase();
+    const completed = TRUE_VALUES.includes(completedText);
+    if (!completed && !FALSE_VALUES.includes(completedText)) {
+      skip(`Completed "${read('completed')}" is not yes or no`);
+      return;
+    }
+
+    const description = read('description');
+    tasks.push({
+      row,
+      listName: read('list') || CSV_DEFAULT_LIST_NAME,
+      title,
+      ...(description && { description }),
+      dueDate: due.date,
+      hasDueTime: due.hasDueTime,
+      priority,
+      completed,
+      subtasks: parseSubtasks(read('subtasks')),
+    });
+  });
+
+  return { tasks, skipped };
+};
+
+/**
+ * Groups task drafts into lists, matching list names to existing lists ignoring case.
+ * Lists that do not exist yet are created, each with the next predefined color and the default icon.
+ *
+ * @param drafts - Tasks read from the file
+ * @param existingLists - Current lists
+ * @param now - Creation time of the tasks
+ * @param createId - Generates ids for the new lists, tasks and subtasks
+ * @returns Lists holding only the imported tasks (existing lists keep their id), and the names of new lists
+ *
+ * @example
+ * const { categoryLists } = groupCsvTasks(tasks, lists, new Date());
+ * importCategoryLists(categoryLists, 'merge');
+ */
+export const groupCsvTasks = (
+  drafts: CsvTaskDraft[],
+  existingLists: ListRecord[],
+  now: Date,
+  createId: () => string = generateId
+): { categoryLists: CategoryList[]; newListNames: string[] } => {
+  const listsByName = new Map<string, CategoryList>();
+  existingLists.forEach(list => {
+    const key = list.category.trim().toLowerCase();
+    if (!listsByName.has(key)) listsByName.set(key, { ...list, tasks: [] });
+  });
+  const newListNames: string[] = [];
+
+  drafts.forEach(({ row: _row, listName, subtasks, ...draft }) => {
+    const key = listName.toLowerCase();
+    let categoryList = listsByName.get(key);
+    if (!categoryList) {
+      categoryList = {
+        id: createId(),
+        category: listName,
+        color: PREDEFINED_COLORS[(existingLists.length + newListNames.length) % PREDEFINED_COLORS.length],
+        icon: PREDEFINED_ICONS[0],
+        tasks: [],
+      };
+      listsByName.set(key, categoryList);
+      newListNames.push(listName);
+    }
+
+    categoryList.tasks.push({
+      ...draft,
+      id: createId(),
+      listId: categoryList.id,
+      subtasks: subtasks.length > 0 ? subtasks.map(subtask => ({ ...subtask, id: createId() })) : undefined,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: draft.completed ? now : undefined,
+    });
+  });
+
+  return {
+    categoryLists: [...listsByName.values()].filter(categoryList => categoryList.tasks.length > 0),
+    newListNames,
+  };
+};
@@ -0,0 +1,34 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+/**
+ * File types offered by the picker; spreadsheet apps and file managers label CSV files inconsistently
+ */
+const CSV_FILE_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'text/tab-separated-values',
+  'text/plain',
+  'application/csv',
+  'application/vnd.ms-excel',
+];
+
+/**
+ * Lets the user pick a CSV file (from Files, Drive, downloads…) and reads its text
+ *
+ * @returns The file's name and text, or null if no file was picked
+ * @throws If the file cannot be read
+ *
+ * @example
+ * const file = await pickCsvFile();
+ * if (file) setCsvText(file.text);
+ */
+export const pickCsvFile = async (): Promise<{ name: string; text: string } | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: CSV_FILE_TYPES, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+
+  const [asset] = result.assets;
+  // On web the picked File is read directly; on device the picker copies it to the cache
+  const text = asset.file ? await asset.file.text() : await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, text };
+};
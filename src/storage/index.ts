@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Storage adapters for task data, and JSON/CSV import and export
+ * Every adapter implements the TaskRepository interface from `@/src/types`
+ */
+
+export { AsyncStorageTaskRepository } from '@/src/storage/asyncStorageRepository';
+export {
+  BACKUP_VERSION,
+  BackupFormatError,
+  mergeCategoryLists,
+  parseBackup,
+  serializeBackup
+} from '@/src/storage/backup';
+export {
+  CSV_COLUMNS,
+  CSV_DEFAULT_LIST_NAME,
+  CSV_DELIMITERS,
+  detectCsvDelimiter,
+  exportTasksCsv,
+  groupCsvTasks,
+  guessCsvDateOrder,
+  guessCsvMapping,
+  parseCsv,
+  readCsvTasks
+} from '@/src/storage/csv';
+export { pickCsvFile } from '@/src/storage/csvFile';
+export { InMemoryTaskRepository } from '@/src/storage/memoryRepository';
+export { STORAGE_SCHEMA_VERSION, StorageSchemaError } from '@/src/storage/schema';
@@ -0,0 +1,48 @@
+import { deserializeTaskData, serializeTaskData, StoredTaskData } from '@/src/storage/schema';
+import { TaskRepository, TaskSnapshot, TaskSnapshotListener } from '@/src/types';
+
+/**
+ * Task repository that keeps data in memory, for tests and previews.
+ * Data is round-tripped through the stored schema so callers never share
+ * object references with the repository, matching persistent adapters.
+ */
+export class InMemoryTaskRepository implements TaskRepository {
+  private data: StoredTaskData | null;
+  private listeners = new Set<TaskSnapshotListener>();
+
+  /**
+   * @param initialSnapshot - Optional data the repository starts with
+   */
+  constructor(initialSnapshot?: TaskSnapshot) {
+    this.data = initialSnapshot ? serializeTaskData(initialSnapshot) : null;
+  }
+
+  /**
+   * Load the current in-memory data
+   * @returns Promise<TaskSnapshot | null> - stored data, or null if nothing has been saved yet
+   */
+  async load(): Promise<TaskSnapshot | null> {
+    return this.data ? deserializeTaskData(this.data) : null;
+  }
+
+  /**
+   * Replace the in-memory data and notify subscribers
+   * @param snapshot - Data to store
+   */
+  async save(snapshot: TaskSnapshot): Promise<void> {
+    this.data = serializeTaskData(snapshot);
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  /**
+   * Subscribe to snapshots saved through this repository
+   * @param listener - Called with each saved snapshot
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: TaskSnapshotListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
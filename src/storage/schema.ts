@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Versioned storage schema for persisted task data
+ * Converts between in-memory category lists and their JSON-safe stored form,
+ * and migrates data written by older versions of the app
+ */
+
+import { CategoryList, DeletedList, DeletedTask, RecurrenceRule, SmartList, Task, TaskSnapshot } from '@/src/types';
+import { generateId, getIdTimestamp } from '@/src/utils';
+
+/**
+ * Current version of the persisted data layout.
+ * Bump this and register a migration whenever existing stored data must be converted
+ * to match a change in `Task` or `CategoryList` (new optional fields need no migration).
+ */
+export const STORAGE_SCHEMA_VERSION = 5;
+
+/**
+ * Recurrence rule as written to storage (dates stored as ISO strings)
+ */
+export interface StoredRecurrenceRule extends Omit<RecurrenceRule, 'endDate'> {
+  endDate?: string;
+}
+
+/**
+ * Task as written to storage (dates stored as ISO strings)
+ */
+export interface StoredTask extends Omit<Task, 'dueDate' | 'recurrence' | 'createdAt' | 'updatedAt' | 'completedAt'> {
+  dueDate: string;
+  recurrence?: StoredRecurrenceRule;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Category list as written to storage
+ */
+export interface StoredCategoryList extends Omit<CategoryList, 'tasks'> {
+  tasks: StoredTask[];
+}
+
+/**
+ * Task in the Trash as written to storage
+ */
+export interface StoredDeletedTask extends Omit<DeletedTask, 'task' | 'deletedAt'> {
+  task: StoredTask;
+  deletedAt: string;
+}
+
+/**
+ * List in the Trash as written to storage
+ */
+export interface StoredDeletedList extends Omit<DeletedList, 'deletedAt'> {
+  deletedAt: string;
+}
+
+/**
+ * Envelope written to storage, tagged with the schema version it was written with
+ */
+export interface StoredTaskData {
+  version: number;
+  categoryLists: StoredCategoryList[];
+  /** Smart lists are JSON-safe and stored as-is */
+  smartLists?: SmartList[];
+  /** Deleted lists and tasks */
+  trash?: { lists: StoredDeletedList[]; tasks: StoredDeletedTask[] };
+}
+
+/** Earliest time an id can have been generated at; earlier "times" come from ids that were never timestamps */
+const EARLIEST_ID_TIME = Date.UTC(2000, 0, 1);
+
+/**
+ * Upgrades stored data by exactly one version.
+ * Keyed by the version being migrated *from*.
+ */
+type Migration = (data: StoredTaskData) => StoredTaskData;
+
+const MIGRATIONS: Record<number, Migration> = {
+  /**
+   * v1 -> v2: ids were `Date.now()` strings, so tasks created in the same millisecond
+   * could share an id. Re-key every duplicate task id, and duplicate subtask ids
+   * within a task, keeping the first occurrence unchanged. New ids carry the time of
+   * the id they replace, so the creation time read from them stays the same.
+   */
+  1: (data) => {
+    const seenTaskIds = new Set<string>();
+
+    return {
+      ...data,
+      categoryLists: data.categoryLists.map(categoryList => ({
+        ...categoryList,
+        tasks: categoryList.tasks.map(task => {
+          const id = seenTaskIds.has(task.id) ? generateId(getIdTimestamp(task.id)) : task.id;
+          seenTaskIds.add(id);
+
+          const seenSubtaskIds = new Set<string>();
+          const subtasks = task.subtasks?.map(subtask => {
+            const subtaskId = seenSubtaskIds.has(subtask.id) ? generateId(getIdTimestamp(subtask.id)) : subtask.id;
+            seenSubtaskIds.add(subtaskId);
+            return subtaskId === subtask.id ? subtask : { ...subtask, id: subtaskId };
+          });
+
+          return { ...task, id, ...(subtasks && { subtasks }) };
+        }),
+      })),
+    };
+  },
+
+  /**
+   * v2 -> v3: lists were identified by their name and tasks referenced that name
+   * through `category`. Give every list a generated id and point its tasks at it.
+   * Lists that shared a name become separate lists.
+   */
+  2: (data) => ({
+    ...data,
+    categoryLists: data.categoryLists.map(categoryList => {
+      const id = generateId();
+      return {
+        ...categoryList,
+        id,
+        tasks: categoryList.tasks.map(task => {
+          const { category: _category, ...rest } = task as StoredTask & { category?: string };
+          return { ...rest, listId: id };
+        }),
+      };
+    }),
+  }),
+
+  /**
+   * v3 -> v4: lists chose between 'auto' (completed last) and 'manual' ordering through
+   * `sortMode`. Replace it with a `sort` setting; 'auto' is the new default and is dropped.
+   */
+  3: (data) => ({
+    ...data,
+    categoryLists: data.categoryLists.map(categoryList => {
+      const { sortMode, ...rest } = categoryList as StoredCategoryList & { sortMode?: 'auto' | 'manual' };
+      return sortMode === 'manual' ? { ...rest, sort: { key: 'manual', completedLast: false } } : rest;
+    }),
+  }),
+
+  /**
+   * v4 -> v5: tasks had no timestamps. Back-fill `createdAt` from the time encoded in the
+   * task id and set `updatedAt` to the same value. Ids that encode no time, or one that cannot
+   * be a creation time (before 2000 or after now, as for hand-written ids like "1"), get the
+   * migration time instead. The real completion time is unknown, so completed tasks get their
+   * creation time, the earliest they can have been completed.
+   */
+  4: (data) => {
+    const migratedAt = Date.now();
+
+    return {
+      ...data,
+      categoryLists: data.categoryLists.map(categoryList => ({
+        ...categoryList,
+        tasks: categoryList.tasks.map(task => {
+          const idTime = getIdTimestamp(task.id);
+          const isCreationTime = idTime !== undefined && idTime >= EARLIEST_ID_TIME && idTime <= migratedAt;
+          const createdAt = new Date(isCreationTime ? idTime : migratedAt).toISOString();
+          return { ...task, createdAt, updatedAt: createdAt, ...(task.completed && { completedAt: createdAt }) };
+        }),
+      })),
+    };
+  },
+};
+
+/**
+ * Error thrown when stored data cannot be read by this version of the app
+ */
+export class StorageSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageSchemaError';
+  }
+}
+
+/**
+ * Converts a task's dates to ISO strings
+ */
+export const serializeTask = (task: Task): StoredTask => ({
+  ...task,
+  dueDate: task.dueDate.toISOString(),
+  createdAt: task.createdAt.toISOString(),
+  updatedAt: task.updatedAt.toISOString(),
+  completedAt: task.completedAt?.toISOString(),
+  recurrence: task.recurrence && {
+    ...task.recurrence,
+    endDate: task.recurrence.endDate?.toISOString(),
+  },
+});
+
+/**
+ * Revives a stored task's dates into `Date` objects
+ */
+export const deserializeTask = (task: StoredTask): Task => ({
+  ...task,
+  dueDate: new Date(task.dueDate),
+  createdAt: new Date(task.createdAt),
+  updatedAt: new Date(task.updatedAt),
+  completedAt: task.completedAt ? new Date(task.completedAt) : undefined,
+  recurrence: task.recurrence && {
+    ...task.recurrence,
+    endDate: task.recurrence.endDate ? new Date(task.recurrence.endDate) : undefined,
+  },
+});
+
+/**
+ * Serializes a task snapshot into the current stored format
+ * @param snapshot - In-memory task data
+ * @returns Versioned, JSON-safe data envelope
+ */
+export const serializeTaskData = ({ categoryLists, smartLists, trash }: TaskSnapshot): StoredTaskData => ({
+  version: STORAGE_SCHEMA_VERSION,
+  categoryLists: categoryLists.map(categoryList => ({
+    ...categoryList,
+    tasks: categoryList.tasks.map(serializeTask),
+  })),
+  smartLists,
+  trash: trash && {
+    lists: trash.lists.map(deleted => ({ ...deleted, deletedAt: deleted.deletedAt.toISOString() })),
+    tasks: trash.tasks.map(deleted => ({
+      ...deleted,
+      task: serializeTask(deleted.task),
+      deletedAt: deleted.deletedAt.toISOString(),
+    })),
+  },
+});
+
+/**
+ * Brings stored data up to the current schema version
+ * @param data - Parsed stored data of any known version
+ * @returns Data in the current schema version
+ * @throws StorageSchemaError if the data is malformed or was written by a newer app version
+ */
+export const migrateTaskData = (data: unknown): StoredTaskData => {
+  if (!data || typeof data !== 'object' || !Array.isArray((data as StoredTaskData).categoryLists)) {
+    throw new StorageSchemaError('Stored task data is malformed');
+  }
+
+  let migrated = data as StoredTaskData;
+  // Data written before versioning was introduced is treated as version 1
+  let version = typeof migrated.version === 'number' ? migrated.version : 1;
+
+  if (version > STORAGE_SCHEMA_VERSION) {
+    throw new StorageSchemaError(
+      `Stored task data has version ${version}, newer than supported version ${STORAGE_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < STORAGE_SCHEMA_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new StorageSchemaError(`No migration registered from version ${version}`);
+    }
+    migrated = migration(migrated);
+    version += 1;
+  }
+
+  return { ...migrated, version };
+};
+
+/**
+ * Revives stored data into an in-memory task snapshot
+ * @param data - Parsed stored data of any known version
+ * @returns Snapshot with task dates revived into `Date` objects (and no smart lists or Trash for older data)
+ */
+export const deserializeTaskData = (data: unknown): TaskSnapshot => {
+  const { categoryLists, smartLists, trash } = migrateTaskData(data);
+
+  return {
+    categoryLists: categoryLists.map(categoryList => ({
+      ...categoryList,
+      tasks: categoryList.tasks.map(deserializeTask),
+    })),
+    smartLists: smartLists ?? [],
+    trash: trash && {
+      lists: trash.lists.map(deleted => ({ ...deleted, deletedAt: new Date(deleted.deletedAt) })),
+      tasks: trash.tasks.map(deleted => ({
+        ...deleted,
+        task: deserializeTask(deleted.task),
+        deletedAt: new Date(deleted.deletedAt),
+      })),
+    },
+  };
+};
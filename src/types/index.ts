@@ -23,6 +23,38 @@ export interface Subtask {
   completed: boolean;
 }
 
+/**
+ * How often a recurring task repeats
+ * - 'daily': every N days
+ * - 'weekdays': every Monday through Friday
+ * - 'weekly': every N weeks on the chosen days
+ * - 'monthly': every N months, by date or by nth weekday
+ * - 'yearly': every N years on the same date
+ */
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Repeat rule for a recurring task
+ */
+export interface RecurrenceRule {
+  /** Base repeat frequency */
+  frequency: RecurrenceFrequency;
+  /** Repeat every N units of the frequency (defaults to 1) */
+  interval?: number;
+  /** Weekly: days of the week to repeat on (0 = Sunday ... 6 = Saturday) */
+  weekdays?: number[];
+  /** Monthly: repeat on the same date ('dayOfMonth') or the same nth weekday ('nthWeekday') */
+  monthlyMode?: 'dayOfMonth' | 'nthWeekday';
+  /** Monthly by date: day of the month to repeat on (clamped to shorter months) */
+  monthDay?: number;
+  /** Monthly by weekday: which occurrence of the weekday (1-4, or -1 for the last) */
+  weekOfMonth?: number;
+  /** Optional last date an occurrence may fall on */
+  endDate?: Date;
+  /** Optional total number of occurrences in the series */
+  count?: number;
+}
+
 /**
  * Main Task interface representing a single task in the application
  */
@@ -35,40 +67,478 @@ export interface Task {
   description?: string;
   /** Date when the task is due */
   dueDate: Date;
+  /** Whether `dueDate` includes a time of day; otherwise the task is due all day */
+  hasDueTime?: boolean;
   /** Whether the task has been completed */
   completed: boolean;
-  /** Category/list that this task belongs to */
-  category: string;
+  /** Id of the category list that this task belongs to */
+  listId: string;
   /** Optional priority level */
   priority?: Priority;
   /** Optional array of subtasks */
   subtasks?: Subtask[];
+  /** Optional repeat rule; completing the task creates the next occurrence */
+  recurrence?: RecurrenceRule;
+  /** Position of this task within its recurring series (1-based) */
+  recurrenceIndex?: number;
+  /** Id of the next occurrence, once one has been generated */
+  nextOccurrenceId?: string;
+  /** Optional reminders, each firing at an offset from the due date */
+  reminders?: ReminderOffset[];
+  /** Optional labels cutting across lists, normalized to lower-case-with-hyphens */
+  tags?: string[];
+  /** When the task was added */
+  createdAt: Date;
+  /** When the task was last changed (equal to `createdAt` until then) */
+  updatedAt: Date;
+  /** When the task was last completed; cleared when it is marked incomplete */
+  completedAt?: Date;
+}
+
+/**
+ * Task as passed to `addTask`; its timestamps are set when it is added
+ */
+export type NewTask = Omit<Task, 'createdAt' | 'updatedAt' | 'completedAt'>;
+
+/**
+ * Editable properties of a task (its list changes by moving it; timestamps are maintained automatically)
+ */
+export type TaskUpdates = Partial<Omit<Task, 'id' | 'listId' | 'createdAt' | 'updatedAt' | 'completedAt'>>;
+
+/**
+ * A tag in use and the number of tasks carrying it
+ */
+export interface TagCount {
+  /** Normalized tag name */
+  tag: string;
+  /** Number of tasks with the tag */
+  count: number;
+}
+
+/**
+ * Field tasks are ordered by
+ * - 'dueDate': earliest due first
+ * - 'priority': highest priority first, tasks without a priority last
+ * - 'title': alphabetical
+ * - 'created': oldest first
+ * - 'manual': the stored order, rearranged by dragging
+ */
+export type TaskSortKey = 'dueDate' | 'priority' | 'title' | 'created' | 'manual';
+
+/**
+ * Sort setting chosen for a list or screen
+ */
+export interface TaskSort {
+  /** Field to order by */
+  key: TaskSortKey;
+  /** Whether completed tasks go to the bottom regardless of the key */
+  completedLast: boolean;
 }
 
 /**
  * Category list interface representing a collection of tasks with visual styling
  */
 export interface CategoryList {
-  /** Name of the category */
+  /** Unique identifier for the list (stable across renames) */
+  id: string;
+  /** Display name of the category */
   category: string;
-  /** Array of tasks in this category */
+  /** Array of tasks in this category, in their stored (manual) order */
   tasks: Task[];
   /** Hex color code for visual identification */
   color: string;
   /** Icon name for visual identification (SF Symbols/Material Icons) */
   icon: string;
+  /** How tasks are ordered on the Lists screen (defaults to manual order, completed last) */
+  sort?: TaskSort;
 }
 
 /**
- * Temporarily deleted task interface for undo functionality
+ * Deleted task kept in the Trash until it is restored, purged or expires
  */
 export interface DeletedTask {
   /** The task that was deleted */
   task: Task;
-  /** Name of the category the task belonged to */
-  categoryName: string;
-  /** Timeout ID for auto-permanent deletion */
-  timeoutId: number;
+  /** The task's list when it was deleted, recreated on restore if it no longer exists */
+  list: ListRecord;
+  /** When the task was deleted */
+  deletedAt: Date;
+}
+
+/**
+ * Deleted list kept in the Trash together with the tasks deleted along with it
+ */
+export interface DeletedList {
+  /** The list that was deleted */
+  list: ListRecord;
+  /** Tasks the list held when it was deleted, in order (kept in `deletedTasks`) */
+  taskIds: string[];
+  /** When the list was deleted */
+  deletedAt: Date;
+}
+
+/**
+ * An entry on the Trash screen: a deleted list with its tasks, or a task deleted on its own
+ */
+export type TrashItem =
+  | { kind: 'list'; list: ListRecord; tasks: Task[]; deletedAt: Date }
+  | { kind: 'task'; task: Task; list: ListRecord; deletedAt: Date };
+
+/**
+ * Contents of the Trash as persisted by a TaskRepository
+ */
+export interface TrashSnapshot {
+  /** Deleted lists */
+  lists: DeletedList[];
+  /** Deleted tasks, including those deleted along with a list */
+  tasks: DeletedTask[];
+}
+
+/**
+ * Category list metadata stored without its tasks
+ */
+export type ListRecord = Omit<CategoryList, 'tasks'>;
+
+/**
+ * Normalized task data with constant-time lookups
+ */
+export interface NormalizedTaskData {
+  /** Every task keyed by task id */
+  tasksById: Record<string, Task>;
+  /** List metadata keyed by list id */
+  listsById: Record<string, ListRecord>;
+  /** List ids in display order */
+  listOrder: string[];
+  /** Ordered task ids belonging to each list, keyed by list id */
+  taskIdsByList: Record<string, string[]>;
+}
+
+/**
+ * Editable properties of a category list
+ */
+export type CategoryListUpdates = Partial<Pick<CategoryList, 'category' | 'color' | 'icon' | 'sort'>>;
+
+/**
+ * Complete task state managed by the task reducer
+ */
+export interface TaskState extends NormalizedTaskData {
+  /** Tasks in the Trash, keyed by task id */
+  deletedTasks: Record<string, DeletedTask>;
+  /** Lists in the Trash, keyed by list id */
+  deletedLists: Record<string, DeletedList>;
+  /** Saved smart lists, in display order */
+  smartLists: SmartList[];
+}
+
+/**
+ * Actions describing every state transition of the task reducer
+ */
+export type TaskAction =
+  | { type: 'HYDRATE'; categoryLists: CategoryList[]; smartLists?: SmartList[]; trash?: TrashSnapshot }
+  | { type: 'IMPORT_CATEGORY_LISTS'; categoryLists: CategoryList[] }
+  | { type: 'ADD_CATEGORY_LIST'; categoryList: CategoryList }
+  | { type: 'UPDATE_CATEGORY_LIST'; listId: string; updates: CategoryListUpdates }
+  | { type: 'DELETE_CATEGORY_LIST'; listId: string; now: Date }
+  | { type: 'RESTORE_CATEGORY_LIST'; listId: string }
+  | { type: 'PURGE_DELETED_LIST'; listId: string }
+  | { type: 'MOVE_CATEGORY_LIST'; listId: string; position: number }
+  | { type: 'ADD_TASK'; task: Task }
+  | { type: 'TOGGLE_TASK_COMPLETION'; taskId: string; nextTaskId?: string; now: Date }
+  | { type: 'UPDATE_TASK'; taskId: string; updates: TaskUpdates; now: Date }
+  | { type: 'COMPLETE_TASKS'; taskIds: string[]; completed: boolean; nextTaskIds?: Record<string, string>; now: Date }
+  | { type: 'UPDATE_TASKS'; taskIds: string[]; updates: TaskUpdates; now: Date }
+  | { type: 'MOVE_TASKS'; taskIds: string[]; listId: string; position?: number; now: Date }
+  | { type: 'RESCHEDULE_TASKS'; taskIds: string[]; date: Date; now: Date }
+  | { type: 'RENAME_TAG'; from: string; to: string; now: Date }
+  | { type: 'DELETE_TASK'; taskId: string; now: Date }
+  | { type: 'RESTORE_TASK'; taskId: string }
+  | { type: 'PURGE_DELETED_TASK'; taskId: string }
+  | { type: 'DELETE_TASKS'; taskIds: string[]; now: Date }
+  | { type: 'EMPTY_TRASH'; before?: Date }
+  | { type: 'APPLY_CHANGES'; changes: TaskChangeSet }
+  | { type: 'ADD_SMART_LIST'; smartList: SmartList }
+  | { type: 'UPDATE_SMART_LIST'; smartListId: string; updates: SmartListUpdates }
+  | { type: 'DELETE_SMART_LIST'; smartListId: string };
+
+/**
+ * Changes turning one task state into another, applied with a single `APPLY_CHANGES` action.
+ * Positions are indices in the resulting list order or list of task ids.
+ */
+export interface TaskChangeSet {
+  /** Lists to add or replace, with their position among the lists */
+  lists: { list: ListRecord; position: number }[];
+  /** Tasks to add or replace, with their position within their list */
+  tasks: { task: Task; position: number }[];
+  /** Lists to remove */
+  removeListIds: string[];
+  /** Tasks to remove */
+  removeTaskIds: string[];
+  /** Trash entries for lists to add or replace */
+  trashLists: DeletedList[];
+  /** Trash entries for tasks to add or replace */
+  trashTasks: DeletedTask[];
+  /** Lists to take out of the Trash */
+  removeTrashListIds: string[];
+  /** Tasks to take out of the Trash */
+  removeTrashTaskIds: string[];
+}
+
+/**
+ * One step in the undo/redo history
+ */
+export interface TaskHistoryEntry {
+  /** Description of the change, e.g. `"Buy milk" deleted` */
+  label: string;
+  /** Changes reverting the step */
+  undo: TaskChangeSet;
+  /** Changes making the step again */
+  redo: TaskChangeSet;
+}
+
+/**
+ * Tasks due on a single calendar day
+ */
+export interface DayTaskGroup {
+  /** Midnight at the start of the day */
+  date: Date;
+  /** Tasks due that day, in display order */
+  tasks: Task[];
+}
+
+/**
+ * Completion states a task query can be restricted to
+ */
+export type CompletionFilter = 'all' | 'incomplete' | 'completed';
+
+/**
+ * Filters applied on top of a text search
+ */
+export interface TaskSearchFilters {
+  /** Which tasks to include by completion status */
+  completion: CompletionFilter;
+  /** Restrict results to a single list */
+  listId?: string;
+}
+
+/**
+ * Task fields covered by full-text search
+ */
+export type TaskSearchField = 'title' | 'description' | 'subtasks';
+
+/**
+ * A task matching a search query
+ */
+export interface TaskSearchResult {
+  /** The matching task */
+  task: Task;
+  /** Fields in which the query was found */
+  matchedFields: TaskSearchField[];
+}
+
+/**
+ * Due date windows a task filter can match, relative to the current day
+ * - 'overdue': incomplete and past due
+ * - 'today': due today
+ * - 'thisWeek': due in the current Sunday–Saturday week
+ * - 'next7Days': due today or in the following six days
+ * - 'thisMonth': due in the current calendar month
+ */
+export type DueRange = 'overdue' | 'today' | 'thisWeek' | 'next7Days' | 'thisMonth';
+
+/**
+ * Saved query selecting tasks; every criterion that is set must match
+ *
+ * @example
+ * { priorities: ['!!!'], dueRange: 'thisWeek', completion: 'incomplete' } // High priority this week
+ */
+export interface TaskFilter {
+  /** Tasks in any of these lists (an empty array matches nothing; ids of deleted lists match nothing) */
+  listIds?: string[];
+  /** Tasks with any of these priorities */
+  priorities?: Priority[];
+  /** Tasks due within this window */
+  dueRange?: DueRange;
+  /** Tasks with this completion status (default: all) */
+  completion?: CompletionFilter;
+  /** Tasks whose title, description or subtasks contain every word */
+  text?: string;
+  /** Tasks carrying any of these tags */
+  tags?: string[];
+}
+
+/**
+ * User-defined list whose tasks are computed from a saved filter
+ */
+export interface SmartList {
+  /** Unique identifier for the smart list */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Hex color code for visual identification */
+  color: string;
+  /** Query selecting the list's tasks */
+  filter: TaskFilter;
+}
+
+/**
+ * Editable properties of a smart list
+ */
+export type SmartListUpdates = Partial<Omit<SmartList, 'id'>>;
+
+/**
+ * Snapshot of all task data that is persisted by a TaskRepository
+ */
+export interface TaskSnapshot {
+  /** Array of all category lists with their tasks */
+  categoryLists: CategoryList[];
+  /** Saved smart lists (absent in data written before smart lists existed) */
+  smartLists?: SmartList[];
+  /** Deleted lists and tasks (absent in data written before the Trash existed) */
+  trash?: TrashSnapshot;
+}
+
+/**
+ * How imported lists combine with existing ones
+ * - 'merge': add lists and tasks whose ids are new, keeping everything that exists
+ * - 'replace': the imported lists take the place of all existing lists and tasks
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * A list or task left out of an import, and why
+ */
+export interface BackupRecordError {
+  /** Which record, e.g. 'List 2 "Work" › task 5 "Call Bob"' */
+  record: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+/**
+ * Contents of a backup read back for import
+ */
+export interface BackupParseResult {
+  /** Lists that passed validation, with their valid tasks */
+  categoryLists: CategoryList[];
+  /** Lists and tasks left out of the import */
+  errors: BackupRecordError[];
+  /** When the backup was taken, if recorded */
+  exportedAt?: Date;
+}
+
+/**
+ * Task field a CSV column can be imported into
+ */
+export type CsvField = 'list' | 'title' | 'description' | 'dueDate' | 'priority' | 'completed' | 'subtasks';
+
+/**
+ * Row of a CSV file with the line it starts on, which differs from its position
+ * after blank lines or quoted fields spanning several lines
+ */
+export interface CsvRow {
+  /** Line the row starts on (1-based) */
+  line: number;
+  /** Field values, unquoted */
+  cells: string[];
+}
+
+/**
+ * Order of day and month in dates written with slashes or dots
+ * - 'mdy': month first, as in the US (03/04/2024 is March 4)
+ * - 'dmy': day first, as in most other locales (03/04/2024 is 3 April)
+ */
+export type CsvDateOrder = 'mdy' | 'dmy';
+
+/**
+ * Which column (by index) each task field is read from; unmapped fields use their defaults
+ */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+/**
+ * Task read from a CSV row, before it is given an id and a list
+ */
+export interface CsvTaskDraft {
+  /** Line the row starts on in the file (1-based, counting the header) */
+  row: number;
+  /** Name of the list the task goes into, matched to existing lists ignoring case */
+  listName: string;
+  title: string;
+  description?: string;
+  dueDate: Date;
+  hasDueTime: boolean;
+  priority?: Priority;
+  completed: boolean;
+  subtasks: Omit<Subtask, 'id'>[];
+}
+
+/**
+ * A CSV row that could not be imported, and why
+ */
+export interface CsvSkippedRow {
+  /** Line the row starts on in the file (1-based, counting the header) */
+  row: number;
+  /** What is wrong with the row */
+  reason: string;
+}
+
+/**
+ * Callback invoked when a repository's stored data changes
+ */
+export type TaskSnapshotListener = (snapshot: TaskSnapshot) => void;
+
+/**
+ * Storage adapter used by TaskProvider to load and persist task data.
+ * Implementations can target AsyncStorage, memory (tests), files, etc.
+ */
+export interface TaskRepository {
+  /** Loads stored data (null if nothing has been saved yet) */
+  load: () => Promise<TaskSnapshot | null>;
+  /** Persists a full snapshot of task data */
+  save: (snapshot: TaskSnapshot) => Promise<void>;
+  /** Registers a listener for saved data; returns an unsubscribe function */
+  subscribe: (listener: TaskSnapshotListener) => () => void;
+}
+
+/**
+ * When a reminder fires relative to its task's due date.
+ * All-day tasks are treated as due at 9:00 AM on their due day.
+ *
+ * @example
+ * { type: 'beforeDue', minutes: 0 }              // At due time
+ * { type: 'beforeDue', minutes: 15 }             // 15 minutes before
+ * { type: 'dayBefore', hour: 9, minute: 0 }      // Day before at 9:00 AM
+ */
+export type ReminderOffset =
+  | { type: 'beforeDue'; minutes: number }
+  | { type: 'dayBefore'; hour: number; minute: number };
+
+/**
+ * A reminder that is due to fire, computed from a task and one of its offsets
+ */
+export interface ScheduledReminder {
+  /** Stable identifier derived from the task id and offset */
+  id: string;
+  /** Id of the task the reminder belongs to */
+  taskId: string;
+  /** Notification title (the task title) */
+  title: string;
+  /** Notification body describing when the task is due */
+  body: string;
+  /** When the reminder should fire */
+  fireDate: Date;
+}
+
+/**
+ * Delivery backend used by the reminder scheduler to show reminders.
+ * Implementations can target local notifications, an in-app banner, etc.
+ */
+export interface ReminderDelivery {
+  /** Arranges for a reminder to be shown at its fire date */
+  schedule: (reminder: ScheduledReminder) => Promise<void>;
+  /** Cancels a previously scheduled reminder */
+  cancel: (reminderId: string) => Promise<void>;
+  /** Cancels every reminder scheduled by this app, including by earlier sessions */
+  cancelAll: () => Promise<void>;
 }
 
 /**
@@ -77,22 +547,90 @@ export interface DeletedTask {
 export interface TaskContextType {
   /** Array of all category lists with their tasks */
   categoryLists: CategoryList[];
+  /** Whether persisted lists have finished loading from storage */
+  isHydrated: boolean;
   /** Function to add a new category list */
   addCategoryList: (categoryList: CategoryList) => void;
+  /** Function to update a list's name, color or icon */
+  updateCategoryList: (listId: string, updates: CategoryListUpdates) => void;
+  /** Function to rename a list without affecting its tasks */
+  renameCategoryList: (listId: string, name: string) => void;
+  /** Function to move a list to another position among the lists */
+  moveCategoryList: (listId: string, position: number) => void;
+  /** Function to look up a category list by id */
+  getCategoryList: (listId: string) => CategoryList | undefined;
   /** Function to add a new task to a category */
-  addTask: (task: Task) => void;
-  /** Function to toggle task completion status */
+  addTask: (task: NewTask) => void;
+  /** Function to toggle task completion status (completing a recurring task creates its next occurrence) */
   toggleTaskCompletion: (taskId: string) => void;
-  /** Function to update an existing task */
-  updateTask: (taskId: string, updates: Partial<Omit<Task, 'id'>>) => void;
-  /** Function to delete a task (returns true if permanent, false if temporary) */
-  deleteTask: (taskId: string) => Promise<boolean>;
-  /** Function to restore a temporarily deleted task */
+  /** Function to update an existing task (use moveTask to change its list) */
+  updateTask: (taskId: string, updates: TaskUpdates) => void;
+  /** Function to move a task to another list, or to another position in its own list */
+  moveTask: (taskId: string, listId: string, position?: number) => void;
+  /** Function to move a task to the Trash, from where it can be restored */
+  deleteTask: (taskId: string) => void;
+  /** Function to restore a task from the Trash, recreating its list if that no longer exists */
   restoreTask: (taskId: string) => void;
   /** Function to get all tasks due today */
   getTasksDueToday: () => Task[];
-  /** Function to delete an entire category list and all its tasks */
-  deleteCategoryList: (categoryName: string) => void;
+  /** Function to get all tasks due on the same calendar day as a date */
+  getTasksDueOn: (date: Date) => Task[];
+  /** Function to get incomplete tasks due before today, oldest first */
+  getOverdueTasks: () => Task[];
+  /** Function to get incomplete tasks grouped by day, for each of the next `days` days starting today */
+  getUpcomingTasks: (days: number) => DayTaskGroup[];
+  /** Function to move tasks to another day, keeping each task's time of day */
+  rescheduleTasks: (taskIds: string[], date: Date) => void;
+  /** Function to mark several tasks complete or incomplete in one step */
+  completeTasks: (taskIds: string[], completed?: boolean) => void;
+  /** Function to apply the same changes (e.g. priority) to several tasks in one step */
+  updateTasks: (taskIds: string[], updates: TaskUpdates) => void;
+  /** Function to move several tasks to the end of another list in one step */
+  moveTasks: (taskIds: string[], listId: string) => void;
+  /** Function to delete several tasks in one step (grouped with other recent deletions for undo) */
+  deleteTasks: (taskIds: string[]) => void;
+  /** Function to revert the most recent change to tasks or lists (returns false if there is nothing to undo) */
+  undo: () => boolean;
+  /** Function to make the most recently undone change again (returns false if there is nothing to redo) */
+  redo: () => boolean;
+  /** Description of the change `undo` would revert, or null if there is none */
+  undoLabel: string | null;
+  /** Description of the change `redo` would make again, or null if there is none */
+  redoLabel: string | null;
+  /** Ids of tasks deleted within the last few seconds, which one undo restores together */
+  pendingDeletions: string[];
+  /** Function to search task titles, descriptions and subtasks across all lists */
+  searchTasks: (query: string, filters?: TaskSearchFilters) => TaskSearchResult[];
+  /** Array of saved smart lists */
+  smartLists: SmartList[];
+  /** Function to save a new smart list */
+  addSmartList: (smartList: SmartList) => void;
+  /** Function to update a smart list's name, color or filter */
+  updateSmartList: (smartListId: string, updates: SmartListUpdates) => void;
+  /** Function to delete a smart list (its tasks are unaffected) */
+  deleteSmartList: (smartListId: string) => void;
+  /** Function to get the tasks currently matching a smart list's filter */
+  getSmartListTasks: (smartListId: string) => Task[];
+  /** Function to get every tag in use with its task count, alphabetically */
+  getTags: () => TagCount[];
+  /** Function to get all tasks carrying a tag */
+  getTasksWithTag: (tag: string) => Task[];
+  /** Function to rename a tag on every task; renaming onto an existing tag merges the two */
+  renameTag: (from: string, to: string) => void;
+  /** Function to move an entire category list and all its tasks to the Trash */
+  deleteCategoryList: (listId: string) => void;
+  /** Deleted lists and tasks, most recently deleted first */
+  trash: TrashItem[];
+  /** Function to restore a list from the Trash together with the tasks deleted along with it */
+  restoreCategoryList: (listId: string) => void;
+  /** Function to permanently remove a task from the Trash */
+  purgeDeletedTask: (taskId: string) => void;
+  /** Function to permanently remove a list and its tasks from the Trash */
+  purgeDeletedList: (listId: string) => void;
+  /** Function to permanently remove everything in the Trash */
+  emptyTrash: () => void;
+  /** Function to add lists and tasks from a backup or CSV file, or replace all lists with them, as one undoable step */
+  importCategoryLists: (categoryLists: CategoryList[], mode: ImportMode) => void;
 }
 
 /**
@@ -130,4 +668,4 @@ export type ColorScheme = 'light' | 'dark';
 /**
  * Navigation route names for type-safe navigation
  */
-export type RouteNames = 'index' | 'lists'; 
\ No newline at end of file
+export type RouteNames = 'index' | 'upcoming' | 'calendar' | 'lists'; 
\ No newline at end of file
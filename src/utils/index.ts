@@ -6,42 +6,160 @@
 /**
  * Formats a date object into a readable string for display
  * @param date - The date to format
- * @param options - Formatting options (defaults to long format)
+ * @param options - Formatting options (defaults to long format); set `includeTime`
+ *   to append the time of day in the user's locale
  * @returns Formatted date string
  * 
  * @example
  * formatDate(new Date()) // "Friday, December 15, 2023"
  * formatDate(new Date(), { format: 'short' }) // "Dec 15, 2023"
+ * formatDate(new Date(), { format: 'short', includeTime: true }) // "Dec 15, 2023, 3:00 PM"
  */
 export const formatDate = (
   date: Date, 
-  options: { format?: 'long' | 'short' } = { format: 'long' }
+  options: { format?: 'long' | 'short'; includeTime?: boolean } = { format: 'long' }
 ): string => {
-  if (options.format === 'short') {
-    return date.toLocaleDateString('en-US', {
+  const datePart = options.format === 'short'
+    ? date.toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
+    })
+    : date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
     });
-  }
-  
-  return date.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
+
+  return options.includeTime ? `${datePart}, ${formatTime(date)}` : datePart;
+};
+
+/**
+ * Formats the time of day of a date using the user's locale (12/24-hour clock as configured)
+ * @param date - The date whose time to format
+ * @returns Formatted time string
+ * 
+ * @example
+ * formatTime(new Date(2023, 11, 15, 15, 0)) // "3:00 PM" (en-US) or "15:00" (en-GB)
+ */
+export const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString(undefined, {
+    hour: 'numeric',
+    minute: '2-digit',
   });
 };
 
+/** Crockford base32 alphabet used by ULIDs (no I, L, O or U) */
+const ID_ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ID_TIME_LENGTH = 10;
+const ID_RANDOM_LENGTH = 16;
+
+// State for monotonic generation within the same millisecond
+let lastIdTime = -1;
+let lastIdRandom: number[] = [];
+
+/**
+ * Produces random base32 digits, preferring a cryptographic source when available
+ */
+const randomIdDigits = (): number[] => {
+  const bytes = new Uint8Array(ID_RANDOM_LENGTH);
+  if (typeof globalThis.crypto?.getRandomValues === 'function') {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return Array.from(bytes, byte => byte % ID_ENCODING.length);
+};
+
+/**
+ * Writes a millisecond timestamp and random digits as a ULID
+ */
+const encodeId = (time: number, random: number[]): string => {
+  let remaining = time;
+  let timePart = '';
+  for (let i = 0; i < ID_TIME_LENGTH; i++) {
+    timePart = ID_ENCODING[remaining % ID_ENCODING.length] + timePart;
+    remaining = Math.floor(remaining / ID_ENCODING.length);
+  }
+  return timePart + random.map(digit => ID_ENCODING[digit]).join('');
+};
+
 /**
- * Generates a unique ID for tasks and subtasks
- * @returns A unique string identifier based on timestamp
+ * Generates a unique, lexicographically sortable ID (ULID format) for tasks, subtasks and lists
+ * 
+ * IDs are 26 characters: a 48-bit millisecond timestamp followed by 80 random bits.
+ * IDs generated within the same millisecond are strictly increasing, so they never collide
+ * and sort in creation order. No network access is required.
+ * 
+ * @param time - Creation time to encode instead of now, e.g. when re-keying an older record
+ *   (such ids rely on their random part alone to be unique)
+ * @returns A unique string identifier
  * 
  * @example
- * generateId() // "1703520000000"
+ * generateId() // "01HJ5Z3Q8K4V7XW2N9RT6BCDEF"
+ * generateId(1702652400000) // "01HHPZVMC0…", dated December 15, 2023
  */
-export const generateId = (): string => {
-  return Date.now().toString();
+export const generateId = (time?: number): string => {
+  if (time !== undefined) {
+    return encodeId(time, randomIdDigits());
+  }
+
+  const now = Date.now();
+
+  if (now <= lastIdTime) {
+    // Same millisecond (or clock moved backwards): increment the previous random part
+    let i = lastIdRandom.length - 1;
+    while (i >= 0 && lastIdRandom[i] === ID_ENCODING.length - 1) {
+      lastIdRandom[i] = 0;
+      i--;
+    }
+    if (i >= 0) {
+      lastIdRandom[i]++;
+    } else {
+      // Random part overflowed; borrow the next millisecond
+      lastIdTime++;
+    }
+  } else {
+    lastIdTime = now;
+    lastIdRandom = randomIdDigits();
+  }
+
+  return encodeId(lastIdTime, lastIdRandom);
+};
+
+/**
+ * Reads the creation time encoded in an id
+ * 
+ * ULIDs carry their millisecond timestamp in the first 10 characters; ids written
+ * by older versions of the app were `Date.now()` strings (`Date.now()-index` for subtasks).
+ * 
+ * @param id - Id from `generateId` or a legacy numeric id
+ * @returns Milliseconds since the epoch, or undefined if the id encodes no time
+ * 
+ * @example
+ * getIdTimestamp(generateId()) // Date.now() at generation
+ * getIdTimestamp('1702652400000') // 1702652400000
+ * getIdTimestamp('1702652400000-2') // 1702652400000
+ */
+export const getIdTimestamp = (id: string): number | undefined => {
+  const legacyMatch = id.match(/^(\d+)(?:-\d+)?$/);
+  if (legacyMatch) {
+    return Number(legacyMatch[1]);
+  }
+  if (id.length !== ID_TIME_LENGTH + ID_RANDOM_LENGTH) {
+    return undefined;
+  }
+
+  let time = 0;
+  for (const char of id.slice(0, ID_TIME_LENGTH).toUpperCase()) {
+    const digit = ID_ENCODING.indexOf(char);
+    if (digit === -1) return undefined;
+    time = time * ID_ENCODING.length + digit;
+  }
+  return time;
 };
 
 /**
@@ -59,19 +177,142 @@ export const isToday = (date: Date): boolean => {
 };
 
 /**
- * Sorts tasks by completion status (incomplete first, completed last)
- * @param tasks - Array of tasks to sort
- * @returns Sorted array with incomplete tasks first
+ * Returns midnight at the start of a date's calendar day
+ * @param date - Any time on the day
+ * @returns New date at 00:00 local time
  * 
  * @example
- * const sorted = sortTasksByCompletion([completedTask, incompleteTask])
- * // Returns [incompleteTask, completedTask]
+ * startOfDay(new Date(2023, 11, 15, 15, 30)) // Dec 15, 2023 00:00
  */
-export const sortTasksByCompletion = <T extends { completed: boolean }>(tasks: T[]): T[] => {
-  return [...tasks].sort((a, b) => {
-    if (a.completed === b.completed) return 0;
-    return a.completed ? 1 : -1; // Completed tasks go to bottom
-  });
+export const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+/**
+ * Moves a date onto another calendar day, keeping its time of day
+ * @param date - Date whose time of day is kept
+ * @param day - Any time on the target day
+ * @returns New date on `day` at the time of `date`
+ * 
+ * @example
+ * moveToDay(new Date(2023, 11, 1, 15, 0), new Date(2023, 11, 15)) // Dec 15, 2023 3:00 PM
+ */
+export const moveToDay = (date: Date, day: Date): Date => {
+  const result = new Date(date);
+  result.setFullYear(day.getFullYear(), day.getMonth(), day.getDate());
+  return result;
+};
+
+/**
+ * Checks whether an incomplete task is past due.
+ * All-day tasks become overdue once their day has ended; timed tasks once their time has passed.
+ * @param task - Task to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if the task is incomplete and past due
+ * 
+ * @example
+ * isTaskOverdue({ completed: false, dueDate: yesterday }) // true
+ */
+export const isTaskOverdue = (
+  task: { completed: boolean; dueDate: Date; hasDueTime?: boolean },
+  now: Date = new Date()
+): boolean => {
+  if (task.completed) return false;
+  return task.hasDueTime
+    ? task.dueDate.getTime() < now.getTime()
+    : task.dueDate.getTime() < startOfDay(now).getTime();
+};
+
+/**
+ * Formats a due date relative to today for compact display on task cards
+ * @param date - Due date
+ * @param options - Whether to include the time of day, and the reference date
+ * @returns "Today", "Tomorrow", "Yesterday" or a short date, optionally followed by the time;
+ *   for timed tasks due today only the time is shown
+ * 
+ * @example
+ * formatRelativeDueDate(yesterday) // "Yesterday"
+ * formatRelativeDueDate(today3pm, { includeTime: true }) // "3:00 PM"
+ * formatRelativeDueDate(new Date(2023, 11, 20)) // "Dec 20"
+ */
+export const formatRelativeDueDate = (
+  date: Date,
+  options: { includeTime?: boolean; now?: Date } = {}
+): string => {
+  const now = options.now ?? new Date();
+  const dayDifference = Math.round(
+    (startOfDay(date).getTime() - startOfDay(now).getTime()) / (24 * 60 * 60 * 1000)
+  );
+
+  if (dayDifference === 0 && options.includeTime) {
+    return formatTime(date);
+  }
+
+  let day: string;
+  if (dayDifference === 0) {
+    day = 'Today';
+  } else if (dayDifference === 1) {
+    day = 'Tomorrow';
+  } else if (dayDifference === -1) {
+    day = 'Yesterday';
+  } else {
+    day = date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(date.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+    });
+  }
+
+  return options.includeTime ? `${day}, ${formatTime(date)}` : day;
+};
+
+/**
+ * Formats how long ago a moment was, for timestamps such as when a task was completed
+ * @param date - Moment in the past
+ * @param now - Reference time (defaults to the current time)
+ * @returns "Just now", minutes or hours ago, "Yesterday", days ago within a week,
+ *   otherwise a short date
+ * 
+ * @example
+ * formatTimeAgo(fiveMinutesAgo) // "5 minutes ago"
+ * formatTimeAgo(twoDaysAgo) // "2 days ago"
+ * formatTimeAgo(new Date(2023, 11, 15)) // "Dec 15, 2023"
+ */
+export const formatTimeAgo = (date: Date, now: Date = new Date()): string => {
+  const minutes = Math.floor((now.getTime() - date.getTime()) / (60 * 1000));
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return plural(minutes, 'minute');
+  if (date.toDateString() === now.toDateString()) return plural(Math.floor(minutes / 60), 'hour');
+
+  const days = Math.round((startOfDay(now).getTime() - startOfDay(date).getTime()) / (24 * 60 * 60 * 1000));
+  if (days === 1) return 'Yesterday';
+  if (days < 7) return plural(days, 'day');
+  return formatDate(date, { format: 'short' });
+};
+
+/**
+ * Compares two tasks due on the same day by time of day.
+ * Timed tasks come first in chronological order, followed by all-day tasks.
+ * @param a - First task
+ * @param b - Second task
+ * @returns Negative if `a` comes first, positive if `b` does, 0 if equal
+ * 
+ * @example
+ * tasks.sort(compareTasksByDueTime) // [9:00 AM, 3:00 PM, all-day, all-day]
+ */
+export const compareTasksByDueTime = (
+  a: { dueDate: Date; hasDueTime?: boolean },
+  b: { dueDate: Date; hasDueTime?: boolean }
+): number => {
+  if (!a.hasDueTime || !b.hasDueTime) {
+    return Number(!a.hasDueTime) - Number(!b.hasDueTime);
+  }
+  const minutesOf = (date: Date) => date.getHours() * 60 + date.getMinutes();
+  return minutesOf(a.dueDate) - minutesOf(b.dueDate);
 };
 
 /**
@@ -120,18 +361,20 @@ export const isValidHexColor = (color: string): boolean => {
  * Debounces a function call
  * @param func - The function to debounce
  * @param delay - Delay in milliseconds
- * @returns Debounced function
+ * @returns Debounced function, with `cancel` to drop a pending call
  * 
  * @example
  * const debouncedSearch = debounce(searchFunction, 300);
+ * debouncedSearch.cancel();
  */
 export const debounce = <T extends (...args: any[]) => any>(
   func: T,
   delay: number
-): ((...args: Parameters<T>) => void) => {
+): ((...args: Parameters<T>) => void) & { cancel: () => void } => {
   let timeoutId: ReturnType<typeof setTimeout>;
-  return (...args: Parameters<T>) => {
+  const debounced = (...args: Parameters<T>) => {
     clearTimeout(timeoutId);
     timeoutId = setTimeout(() => func(...args), delay);
   };
+  return Object.assign(debounced, { cancel: () => clearTimeout(timeoutId) });
 }; 
\ No newline at end of file
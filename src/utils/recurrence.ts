@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Recurrence rule helpers for repeating tasks
+ * Pure date arithmetic for computing the next occurrence of a recurring task
+ */
+
+import { RecurrenceFrequency, RecurrenceRule, Task } from '@/src/types';
+import { formatDate } from '@/src/utils';
+
+/** Short weekday labels indexed by `Date.getDay()` */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const FULL_WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = ['1st', '2nd', '3rd', '4th'];
+
+/**
+ * Returns a copy of `date` moved by a number of days, keeping the time of day
+ */
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Number of days in a month (month is 0-based and may overflow into following years)
+ */
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Builds a date in the given month, copying the time of day from `time`
+ */
+const dateInMonth = (year: number, month: number, day: number, time: Date): Date =>
+  new Date(year, month, day, time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+
+/**
+ * Which occurrence of its weekday a date is within its month (1-4, or -1 for the last)
+ */
+export const getWeekOfMonth = (date: Date): number => {
+  const week = Math.ceil(date.getDate() / 7);
+  const isLast = date.getDate() + 7 > daysInMonth(date.getFullYear(), date.getMonth());
+  return week > 4 || isLast ? -1 : week;
+};
+
+/**
+ * Day of the month for the nth (or last, when n is -1) given weekday of a month
+ */
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): number => {
+  if (n === -1) {
+    const lastDay = daysInMonth(year, month);
+    const lastWeekday = new Date(year, month, lastDay).getDay();
+    return lastDay - ((lastWeekday - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(year, month, 1).getDay();
+  return 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+};
+
+/**
+ * Creates a rule for a frequency, anchored to the task's due date
+ *
+ * @param frequency - Repeat frequency
+ * @param dueDate - Due date the series starts from
+ * @returns Recurrence rule with weekday/month anchors filled in
+ *
+ * @example
+ * createRecurrenceRule('weekly', new Date('2024-03-05')) // { frequency: 'weekly', interval: 1, weekdays: [2] }
+ */
+export const createRecurrenceRule = (frequency: RecurrenceFrequency, dueDate: Date): RecurrenceRule => {
+  switch (frequency) {
+    case 'weekly':
+      return { frequency, interval: 1, weekdays: [dueDate.getDay()] };
+    case 'monthly':
+      return { frequency, interval: 1, monthlyMode: 'dayOfMonth', monthDay: dueDate.getDate() };
+    case 'yearly':
+      return { frequency, interval: 1, monthDay: dueDate.getDate() };
+    default:
+      return { frequency, interval: 1 };
+  }
+};
+
+/**
+ * Computes the date of the occurrence following `from`
+ *
+ * @param rule - Recurrence rule
+ * @param from - Due date of the current occurrence
+ * @returns Due date of the next occurrence (time of day preserved)
+ *
+ * @example
+ * getNextOccurrenceDate({ frequency: 'daily', interval: 2 }, new Date('2024-03-01')) // Mar 3, 2024
+ */
+export const getNextOccurrenceDate = (rule: RecurrenceRule, from: Date): Date => {
+  const interval = Math.max(1, rule.interval ?? 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, interval);
+
+    case 'weekdays': {
+      let next = addDays(from, 1);
+      while (next.getDay() === 0 || next.getDay() === 6) {
+        next = addDays(next, 1);
+      }
+      return next;
+    }
+
+    case 'weekly': {
+      const days = [...new Set(rule.weekdays?.length ? rule.weekdays : [from.getDay()])].sort((a, b) => a - b);
+      const laterThisWeek = days.find(day => day > from.getDay());
+      if (laterThisWeek !== undefined) {
+        return addDays(from, laterThisWeek - from.getDay());
+      }
+      // Jump to the start of the week `interval` weeks ahead, then to the first chosen day
+      return addDays(from, 7 * interval - from.getDay() + days[0]);
+    }
+
+    case 'monthly': {
+      const year = from.getFullYear();
+      const month = from.getMonth() + interval;
+      if (rule.monthlyMode === 'nthWeekday') {
+        const weekday = rule.weekdays?.[0] ?? from.getDay();
+        const n = rule.weekOfMonth ?? getWeekOfMonth(from);
+        return dateInMonth(year, month, nthWeekdayOfMonth(year, month, weekday, n), from);
+      }
+      const day = Math.min(rule.monthDay ?? from.getDate(), daysInMonth(year, month));
+      return dateInMonth(year, month, day, from);
+    }
+
+    case 'yearly': {
+      const year = from.getFullYear() + interval;
+      const day = Math.min(rule.monthDay ?? from.getDate(), daysInMonth(year, from.getMonth()));
+      return dateInMonth(year, from.getMonth(), day, from);
+    }
+  }
+};
+
+/**
+ * Creates the next occurrence of a recurring task, if the series continues
+ *
+ * @param task - The occurrence being completed
+ * @param nextTaskId - Id to give the new occurrence
+ * @returns The next, incomplete occurrence, or null if the task does not repeat or its series has ended
+ */
+export const createNextOccurrence = (task: Task, nextTaskId: string): Task | null => {
+  const rule = task.recurrence;
+  if (!rule) return null;
+
+  const index = task.recurrenceIndex ?? 1;
+  if (rule.count && index >= rule.count) return null;
+
+  const dueDate = getNextOccurrenceDate(rule, task.dueDate);
+  if (rule.endDate) {
+    const lastDay = new Date(rule.endDate);
+    lastDay.setHours(23, 59, 59, 999);
+    if (dueDate > lastDay) return null;
+  }
+
+  const { nextOccurrenceId: _previous, ...rest } = task;
+  return {
+    ...rest,
+    id: nextTaskId,
+    dueDate,
+    completed: false,
+    recurrenceIndex: index + 1,
+    subtasks: task.subtasks?.map(subtask => ({ ...subtask, completed: false })),
+  };
+};
+
+/**
+ * Describes a recurrence rule in plain language
+ *
+ * @param rule - Recurrence rule
+ * @returns Human readable summary
+ *
+ * @example
+ * describeRecurrence({ frequency: 'weekly', interval: 2, weekdays: [1, 3] }) // "Every 2 weeks on Mon, Wed"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const every = (unit: string) => (interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`);
+
+  let description: string;
+  switch (rule.frequency) {
+    case 'daily':
+      description = every('day');
+      break;
+    case 'weekdays':
+      description = 'Every weekday';
+      break;
+    case 'weekly': {
+      const days = [...(rule.weekdays ?? [])].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]);
+      description = days.length > 0 ? `${every('week')} on ${days.join(', ')}` : every('week');
+      break;
+    }
+    case 'monthly':
+      if (rule.monthlyMode === 'nthWeekday' && rule.weekdays?.length) {
+        const n = rule.weekOfMonth ?? 1;
+        const ordinal = n === -1 ? 'last' : ORDINALS[n - 1];
+        description = `${every('month')} on the ${ordinal} ${FULL_WEEKDAY_LABELS[rule.weekdays[0]]}`;
+      } else {
+        description = rule.monthDay ? `${every('month')} on day ${rule.monthDay}` : every('month');
+      }
+      break;
+    case 'yearly':
+      description = every('year');
+      break;
+  }
+
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.endDate) {
+    description += `, until ${formatDate(rule.endDate, { format: 'short' })}`;
+  }
+  return description;
+};
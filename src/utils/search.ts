@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Full-text search over tasks
+ * Case-insensitive matching of every query term against task titles, descriptions
+ * and subtask names, plus helpers for highlighting the matched text
+ */
+
+import { Task, TaskSearchField, TaskSearchFilters, TaskSearchResult } from '@/src/types';
+
+/**
+ * Searchable text of a single task, lower-cased once and reused across queries
+ */
+export interface SearchIndexEntry {
+  task: Task;
+  title: string;
+  description: string;
+  /** Subtask names separated by newlines, so a term never spans two subtasks */
+  subtasks: string;
+}
+
+/**
+ * Part of a string, flagged when it matches a search term
+ */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/** Filters that let every task through */
+export const DEFAULT_SEARCH_FILTERS: TaskSearchFilters = { completion: 'all' };
+
+/**
+ * Index entries by task; tasks are immutable, so an entry stays valid as long as its task object does
+ */
+const entryCache = new WeakMap<Task, SearchIndexEntry>();
+
+/**
+ * Splits a query into lower-case terms
+ *
+ * @param query - Raw query text
+ * @returns Terms that must all match, in query order
+ *
+ * @example
+ * tokenizeQuery('  Buy MILK ') // ['buy', 'milk']
+ */
+export const tokenizeQuery = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Returns the index entry for a task, building it only the first time the task is seen
+ *
+ * @param task - Task to index
+ * @returns Lower-cased searchable text of the task
+ */
+export const getSearchIndexEntry = (task: Task): SearchIndexEntry => {
+  let entry = entryCache.get(task);
+  if (!entry) {
+    entry = {
+      task,
+      title: task.title.toLowerCase(),
+      description: (task.description ?? '').toLowerCase(),
+      subtasks: (task.subtasks ?? []).map(subtask => subtask.name.toLowerCase()).join('\n'),
+    };
+    entryCache.set(task, entry);
+  }
+  return entry;
+};
+
+/**
+ * Builds a search index over a set of tasks
+ *
+ * @param tasks - Tasks to index
+ * @returns One entry per task
+ */
+export const buildSearchIndex = (tasks: Task[]): SearchIndexEntry[] => tasks.map(getSearchIndexEntry);
+
+const matchesFilters = (task: Task, { completion, listId }: TaskSearchFilters): boolean => {
+  if (completion === 'completed' && !task.completed) return false;
+  if (completion === 'incomplete' && task.completed) return false;
+  return !listId || task.listId === listId;
+};
+
+/**
+ * Orders results: title matches first, then incomplete before completed, then by due date
+ */
+const compareSearchResults = (a: TaskSearchResult, b: TaskSearchResult): number => {
+  const aTitle = a.matchedFields.includes('title') ? 0 : 1;
+  const bTitle = b.matchedFields.includes('title') ? 0 : 1;
+  if (aTitle !== bTitle) return aTitle - bTitle;
+  if (a.task.completed !== b.task.completed) return a.task.completed ? 1 : -1;
+  return a.task.dueDate.getTime() - b.task.dueDate.getTime();
+};
+
+/**
+ * Finds tasks containing every term of a query in their title, description or subtasks
+ *
+ * @param index - Search index built by `buildSearchIndex`
+ * @param query - Query text; an empty query matches nothing
+ * @param filters - Completion and list filters
+ * @returns Matching tasks with the fields that matched, best matches first
+ *
+ * @example
+ * const results = searchTaskIndex(index, 'milk', { completion: 'incomplete' });
+ */
+export const searchTaskIndex = (
+  index: SearchIndexEntry[],
+  query: string,
+  filters: TaskSearchFilters = DEFAULT_SEARCH_FILTERS
+): TaskSearchResult[] => {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  const results: TaskSearchResult[] = [];
+  for (const entry of index) {
+    if (!matchesFilters(entry.task, filters)) continue;
+
+    const matchedFields = new Set<TaskSearchField>();
+    const matchesAllTerms = terms.every(term => {
+      let found = false;
+      (['title', 'description', 'subtasks'] as const).forEach(field => {
+        if (entry[field].includes(term)) {
+          matchedFields.add(field);
+          found = true;
+        }
+      });
+      return found;
+    });
+
+    if (matchesAllTerms) {
+      results.push({ task: entry.task, matchedFields: [...matchedFields] });
+    }
+  }
+
+  return results.sort(compareSearchResults);
+};
+
+/**
+ * Splits text into highlighted and plain segments for every occurrence of the query's terms
+ *
+ * @param text - Text to display
+ * @param query - Query whose terms should be highlighted
+ * @returns Segments in order; a single plain segment when nothing matches
+ *
+ * @example
+ * getHighlightSegments('Buy milk', 'mil')
+ * // [{ text: 'Buy ', highlighted: false }, { text: 'mil', highlighted: true }, { text: 'k', highlighted: false }]
+ */
+export const getHighlightSegments = (text: string, query: string): HighlightSegment[] => {
+  const lower = text.toLowerCase();
+  const terms = tokenizeQuery(query);
+  // Offsets are only meaningful when lower-casing kept the length (true for almost all text)
+  if (terms.length === 0 || lower.length !== text.length) {
+    return [{ text, highlighted: false }];
+  }
+
+  // Mark every matched character, then merge runs into segments
+  const marked = new Array<boolean>(text.length).fill(false);
+  terms.forEach(term => {
+    let start = lower.indexOf(term);
+    while (start !== -1) {
+      marked.fill(true, start, start + term.length);
+      start = lower.indexOf(term, start + 1);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  let segmentStart = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || marked[i] !== marked[segmentStart]) {
+      segments.push({ text: text.slice(segmentStart, i), highlighted: marked[segmentStart] });
+      segmentStart = i;
+    }
+  }
+  return segments;
+};
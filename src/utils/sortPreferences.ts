@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { TaskSort } from '@/src/types';
+import { DEFAULT_HOME_SORT, TASK_SORT_LABELS } from '@/src/utils/taskSort';
+
+const HOME_SORT_KEY = '@TaskManager:homeSort';
+
+/**
+ * Utility functions for persisting screen-level sort choices.
+ * Per-list sorts are stored on the list itself.
+ */
+export class SortPreferences {
+  /**
+   * Load the sort chosen for the Home screen
+   * @returns Promise<TaskSort> - Saved sort, or the default if none is saved or it is unreadable
+   */
+  static async getHomeSort(): Promise<TaskSort> {
+    try {
+      const stored = await AsyncStorage.getItem(HOME_SORT_KEY);
+      if (stored === null) return DEFAULT_HOME_SORT;
+
+      const sort = JSON.parse(stored);
+      // Home has no manual order, and inherited keys such as "toString" are not sort keys
+      const isHomeKey = typeof sort?.key === 'string' && Object.hasOwn(TASK_SORT_LABELS, sort.key) && sort.key !== 'manual';
+      if (isHomeKey && typeof sort.completedLast === 'boolean') {
+        return { key: sort.key, completedLast: sort.completedLast };
+      }
+      return DEFAULT_HOME_SORT;
+    } catch (error) {
+      console.error('Error loading home sort:', error);
+      return DEFAULT_HOME_SORT;
+    }
+  }
+
+  /**
+   * Save the sort chosen for the Home screen
+   * @param sort - Sort to restore on the next launch
+   */
+  static async setHomeSort(sort: TaskSort): Promise<void> {
+    try {
+      await AsyncStorage.setItem(HOME_SORT_KEY, JSON.stringify(sort));
+    } catch (error) {
+      console.error('Error saving home sort:', error);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Tag helpers
+ * Normalization, counting and autocomplete for the free-form labels on tasks
+ */
+
+import { TagCount, Task } from '@/src/types';
+
+/**
+ * Converts user input into the stored tag form: lower case, no leading "#",
+ * words joined with hyphens
+ *
+ * @param input - Raw tag text
+ * @returns Normalized tag, or an empty string if nothing usable was entered
+ *
+ * @example
+ * normalizeTag('  #Waiting On ') // 'waiting-on'
+ */
+export const normalizeTag = (input: string): string =>
+  input.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * Adds a tag to a task's tags, ignoring blanks and duplicates
+ *
+ * @param tags - Current tags (may be undefined)
+ * @param input - Raw tag text
+ * @returns New tag array
+ */
+export const addTag = (tags: string[] | undefined, input: string): string[] => {
+  const tag = normalizeTag(input);
+  const current = tags ?? [];
+  return tag && !current.includes(tag) ? [...current, tag] : current;
+};
+
+/**
+ * Replaces one tag with another in a tag list, dropping the duplicate when the
+ * target is already present (a merge)
+ *
+ * @param tags - Tags of a single task
+ * @param from - Tag being renamed
+ * @param to - New tag name
+ * @returns Updated tags, or the same array if `from` is not present
+ */
+export const replaceTag = (tags: string[], from: string, to: string): string[] => {
+  if (!tags.includes(from)) return tags;
+  return tags.reduce<string[]>((result, tag) => {
+    const next = tag === from ? to : tag;
+    return result.includes(next) ? result : [...result, next];
+  }, []);
+};
+
+/**
+ * Counts how many tasks use each tag
+ *
+ * @param tasks - Tasks to count
+ * @returns Every tag in use with its task count, sorted alphabetically
+ *
+ * @example
+ * countTags(tasks) // [{ tag: 'errand', count: 3 }, { tag: 'waiting-on', count: 1 }]
+ */
+export const countTags = (tasks: Task[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  tasks.forEach(task => {
+    task.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Suggests existing tags for autocomplete, most used first
+ *
+ * @param tagCounts - Tags in use, as returned by `countTags`
+ * @param input - Text typed so far
+ * @param exclude - Tags already on the task
+ * @param limit - Maximum number of suggestions
+ * @returns Tags starting with the input, then tags containing it
+ */
+export const suggestTags = (
+  tagCounts: TagCount[],
+  input: string,
+  exclude: string[] = [],
+  limit: number = 6
+): string[] => {
+  const query = normalizeTag(input);
+  const candidates = [...tagCounts]
+    .filter(({ tag }) => !exclude.includes(tag) && tag.includes(query))
+    .sort((a, b) => {
+      const aPrefix = a.tag.startsWith(query) ? 0 : 1;
+      const bPrefix = b.tag.startsWith(query) ? 0 : 1;
+      return aPrefix - bPrefix || b.count - a.count || a.tag.localeCompare(b.tag);
+    });
+  return candidates.slice(0, limit).map(({ tag }) => tag);
+};
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Task filter evaluation for smart lists
+ * Pure matching of tasks against saved `TaskFilter` queries, evaluated relative
+ * to a reference time so "today" and "this week" stay current
+ */
+
+import { DueRange, Task, TaskFilter } from '@/src/types';
+import { isTaskOverdue, startOfDay } from '@/src/utils';
+import { getSearchIndexEntry, tokenizeQuery } from '@/src/utils/search';
+
+/** Display labels for due ranges, in the order they are offered */
+export const DUE_RANGE_LABELS: Record<DueRange, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  thisWeek: 'This week',
+  next7Days: 'Next 7 days',
+  thisMonth: 'This month',
+};
+
+/**
+ * Returns midnight `days` days after the start of `date`'s day
+ */
+const dayOffset = (date: Date, days: number): Date => {
+  const result = startOfDay(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Checks whether a task's due date falls within a due range
+ *
+ * @param task - Task to check
+ * @param range - Window relative to `now`
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if the task is due within the window
+ *
+ * @example
+ * isTaskInDueRange(task, 'next7Days') // due today through six days from now
+ */
+export const isTaskInDueRange = (task: Task, range: DueRange, now: Date = new Date()): boolean => {
+  const due = task.dueDate.getTime();
+  switch (range) {
+    case 'overdue':
+      return isTaskOverdue(task, now);
+    case 'today':
+      return task.dueDate.toDateString() === now.toDateString();
+    case 'thisWeek':
+      return due >= dayOffset(now, -now.getDay()).getTime() && due < dayOffset(now, 7 - now.getDay()).getTime();
+    case 'next7Days':
+      return due >= startOfDay(now).getTime() && due < dayOffset(now, 7).getTime();
+    case 'thisMonth':
+      return task.dueDate.getFullYear() === now.getFullYear() && task.dueDate.getMonth() === now.getMonth();
+  }
+};
+
+/**
+ * Checks whether a task matches every criterion set on a filter
+ *
+ * @param task - Task to check
+ * @param filter - Saved filter
+ * @param now - Reference time for due ranges (defaults to the current time)
+ * @returns True if the task belongs in the filter's results
+ *
+ * @example
+ * matchesTaskFilter(task, { priorities: ['!!!'], completion: 'incomplete' })
+ */
+export const matchesTaskFilter = (task: Task, filter: TaskFilter, now: Date = new Date()): boolean => {
+  if (filter.listIds && !filter.listIds.includes(task.listId)) return false;
+  if (filter.priorities && filter.priorities.length > 0 && (!task.priority || !filter.priorities.includes(task.priority))) {
+    return false;
+  }
+  if (filter.completion === 'completed' && !task.completed) return false;
+  if (filter.completion === 'incomplete' && task.completed) return false;
+  if (filter.dueRange && !isTaskInDueRange(task, filter.dueRange, now)) return false;
+  if (filter.tags && filter.tags.length > 0 && !filter.tags.some(tag => task.tags?.includes(tag))) return false;
+
+  if (filter.text) {
+    const entry = getSearchIndexEntry(task);
+    const matchesAllTerms = tokenizeQuery(filter.text).every(term =>
+      entry.title.includes(term) || entry.description.includes(term) || entry.subtasks.includes(term)
+    );
+    if (!matchesAllTerms) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Selects the tasks matching a filter
+ *
+ * @param tasks - Tasks to filter
+ * @param filter - Saved filter
+ * @param now - Reference time for due ranges (defaults to the current time)
+ * @returns Matching tasks in their original order
+ */
+export const filterTasks = (tasks: Task[], filter: TaskFilter, now: Date = new Date()): Task[] =>
+  tasks.filter(task => matchesTaskFilter(task, filter, now));
+
+/**
+ * Summarizes a filter for display under a smart list's name
+ *
+ * @param filter - Saved filter
+ * @param getListName - Looks up a list's display name by id
+ * @returns Criteria joined with " · ", or "All tasks" for an empty filter
+ *
+ * @example
+ * describeTaskFilter({ priorities: ['!!!'], dueRange: 'thisWeek' }, getName) // "!!! · This week"
+ */
+export const describeTaskFilter = (
+  filter: TaskFilter,
+  getListName: (listId: string) => string | undefined
+): string => {
+  const parts: string[] = [];
+  if (filter.listIds) {
+    const names = filter.listIds.map(getListName).filter(Boolean);
+    parts.push(names.length > 0 ? names.join(', ') : 'No lists');
+  }
+  if (filter.priorities && filter.priorities.length > 0) parts.push(filter.priorities.join(' '));
+  if (filter.dueRange) parts.push(DUE_RANGE_LABELS[filter.dueRange]);
+  if (filter.tags && filter.tags.length > 0) parts.push(filter.tags.map(tag => `#${tag}`).join(' '));
+  if (filter.completion === 'incomplete') parts.push('Incomplete');
+  if (filter.completion === 'completed') parts.push('Completed');
+  if (filter.text) parts.push(`"${filter.text}"`);
+  return parts.length > 0 ? parts.join(' · ') : 'All tasks';
+};
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Task sorting for lists and the Home screen
+ * Comparators for each sort key, composable with "completed last", and helpers
+ * applying a saved `TaskSort` to a list of tasks
+ */
+
+import { Priority, Task, TaskSort, TaskSortKey } from '@/src/types';
+import { compareTasksByDueTime, startOfDay } from '@/src/utils';
+
+/**
+ * Compares two tasks; negative if `a` comes first, positive if `b` does, 0 if equal
+ */
+export type TaskComparator = (a: Task, b: Task) => number;
+
+/** Display labels for sort keys, in the order they are offered */
+export const TASK_SORT_LABELS: Record<TaskSortKey, string> = {
+  manual: 'Manual',
+  dueDate: 'Due Date',
+  priority: 'Priority',
+  title: 'Title',
+  created: 'Date Created',
+};
+
+/** Default for lists: the stored order with completed tasks at the bottom */
+export const DEFAULT_LIST_SORT: TaskSort = { key: 'manual', completedLast: true };
+
+/** Default for the Home screen: by time of day, completed tasks at the bottom */
+export const DEFAULT_HOME_SORT: TaskSort = { key: 'dueDate', completedLast: true };
+
+const PRIORITY_RANK: Record<Priority, number> = { '!!!': 0, '!!': 1, '!': 2 };
+
+/**
+ * Puts incomplete tasks before completed ones
+ */
+export const compareByCompletion: TaskComparator = (a, b) => Number(a.completed) - Number(b.completed);
+
+/**
+ * Orders by due day, then by time of day (timed tasks before all-day tasks on the same day)
+ */
+export const compareByDueDate: TaskComparator = (a, b) =>
+  startOfDay(a.dueDate).getTime() - startOfDay(b.dueDate).getTime() || compareTasksByDueTime(a, b);
+
+/**
+ * Orders by priority, highest first; tasks without a priority go last
+ */
+export const compareByPriority: TaskComparator = (a, b) => {
+  const rank = (task: Task) => (task.priority ? PRIORITY_RANK[task.priority] : Object.keys(PRIORITY_RANK).length);
+  return rank(a) - rank(b);
+};
+
+/**
+ * Orders alphabetically by title, ignoring case and accents
+ */
+export const compareByTitle: TaskComparator = (a, b) =>
+  a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true });
+
+/**
+ * Orders by creation time, oldest first
+ */
+export const compareByCreated: TaskComparator = (a, b) => a.createdAt.getTime() - b.createdAt.getTime();
+
+/**
+ * Leaves tasks in their stored order (sorting is stable)
+ */
+export const compareManually: TaskComparator = () => 0;
+
+/**
+ * Chains comparators; each one breaks ties left by the previous ones
+ *
+ * @param comparators - Comparators in order of precedence
+ * @returns Combined comparator
+ *
+ * @example
+ * tasks.sort(thenBy(compareByCompletion, compareByTitle))
+ */
+export const thenBy = (...comparators: TaskComparator[]): TaskComparator => (a, b) => {
+  for (const compare of comparators) {
+    const result = compare(a, b);
+    if (result !== 0) return result;
+  }
+  return 0;
+};
+
+/**
+ * Comparator for each sort key; due date and priority break ties with each other
+ * so that tasks at the same time are ordered by importance and vice versa
+ */
+export const TASK_COMPARATORS: Record<TaskSortKey, TaskComparator> = {
+  dueDate: thenBy(compareByDueDate, compareByPriority),
+  priority: thenBy(compareByPriority, compareByDueDate),
+  title: compareByTitle,
+  created: compareByCreated,
+  manual: compareManually,
+};
+
+/**
+ * Builds the comparator for a sort setting
+ *
+ * @param sort - Sort key and whether completed tasks go last
+ * @returns Comparator applying the setting
+ */
+export const getTaskComparator = ({ key, completedLast }: TaskSort): TaskComparator =>
+  completedLast ? thenBy(compareByCompletion, TASK_COMPARATORS[key]) : TASK_COMPARATORS[key];
+
+/**
+ * Sorts tasks by a sort setting without changing the input array.
+ * Tasks that compare equal keep their original (stored) order.
+ *
+ * @param tasks - Tasks to sort
+ * @param sort - Sort key and whether completed tasks go last
+ * @returns New sorted array
+ *
+ * @example
+ * sortTasks(list.tasks, { key: 'priority', completedLast: true })
+ */
+export const sortTasks = (tasks: Task[], sort: TaskSort): Task[] => [...tasks].sort(getTaskComparator(sort));
+
+/**
+ * Describes a sort setting for display, e.g. "Priority, completed last"
+ *
+ * @param sort - Sort setting
+ * @returns Short description
+ */
+export const describeTaskSort = ({ key, completedLast }: TaskSort): string =>
+  completedLast ? `${TASK_SORT_LABELS[key]}, completed last` : TASK_SORT_LABELS[key];